@@ -1,26 +1,78 @@
-import { useState } from "react";
-import { StyleSheet, View, Text, FlatList, TouchableOpacity } from "react-native";
+import { useEffect, useState } from "react";
+import { StyleSheet, View, Text, FlatList, TouchableOpacity, ScrollView, Modal, TextInput } from "react-native";
 import { useRouter } from "expo-router";
 
 import { useSightsStore } from "@/stores/sights-store";
 import { useTourStore } from "@/stores/tour-store";
+import { OfflineBadge } from "@/components/OfflineBadge";
 import { SightCard } from "@/components/SightCard";
 import Colors from "@/constants/colors";
-import { MapPin, Route } from "lucide-react-native";
+import { FavoriteSight, Sight } from "@/types/sight";
+import { withDistanceFrom } from "@/utils/sight-repository";
+import { loadSight } from "@/utils/sight-lookup";
+import { MapPin, Route, Folder, Pencil, Trash2 } from "lucide-react-native";
+
+const ALL_FOLDERS = "all";
 
 export default function FavoritesScreen() {
   const router = useRouter();
-  const { sights, favorites } = useSightsStore();
+  const { allSights, favorites, userLocation, updateFavorite, toggleFavorite } = useSightsStore();
   const { savedTours, loadTour } = useTourStore();
   const [activeTab, setActiveTab] = useState<"sights" | "tours">("sights");
+  const [selectedFolder, setSelectedFolder] = useState<string>(ALL_FOLDERS);
+  const [editing, setEditing] = useState<FavoriteSight | null>(null);
+  const [draftFolder, setDraftFolder] = useState("");
+  const [draftNote, setDraftNote] = useState("");
+  const [lookupErrors, setLookupErrors] = useState<Record<string, string>>({});
+  
+  // The cached sight is the freshest; the snapshot covers sights the cache no longer has
+  const favoriteById = new Map(favorites.map(f => [f.sightId, f]));
+  const resolved: Sight[] = favorites.flatMap(f => {
+    const sight = allSights.find(s => s.id.toString() === f.sightId) ?? f.sight;
+    return sight ? [sight] : [];
+  });
+  // Favorites saved before snapshots whose sight isn't cached either
+  const unresolved = favorites.filter(f => !resolved.some(s => s.id.toString() === f.sightId));
+  const nearestFirst = userLocation ?
+    withDistanceFrom(resolved, userLocation.latitude, userLocation.longitude) :
+    resolved;
   
-  // Filter sights that are in favorites (handle both string and number IDs)
-  const favoriteSights = sights.filter(sight => 
-    favorites.includes(sight.id.toString())
+  const folders = [...new Set(favorites.map(f => f.folder).filter((f): f is string => !!f))].sort();
+  // A folder disappears with its last favorite
+  const activeFolder = folders.includes(selectedFolder) ? selectedFolder : ALL_FOLDERS;
+  const favoriteSights = nearestFirst.filter(sight =>
+    activeFolder === ALL_FOLDERS || favoriteById.get(sight.id.toString())?.folder === activeFolder
   );
+  const unresolvedInFolder = unresolved.filter(f => activeFolder === ALL_FOLDERS || f.folder === activeFolder);
+
+  // Look unresolved favorites up once; loadSight remembers the sight, which restores the snapshot
+  const pendingLookups = unresolved.filter(f => !(f.sightId in lookupErrors)).map(f => f.sightId).join(",");
+  useEffect(() => {
+    if (!pendingLookups) return;
+    for (const sightId of pendingLookups.split(",")) {
+      loadSight(sightId).catch((error) => {
+        setLookupErrors(current => ({
+          ...current,
+          [sightId]: error instanceof Error ? error.message : "This sight could not be loaded.",
+        }));
+      });
+    }
+  }, [pendingLookups]);
+
+  const openEditor = (favorite: FavoriteSight) => {
+    setEditing(favorite);
+    setDraftFolder(favorite.folder ?? "");
+    setDraftNote(favorite.note ?? "");
+  };
+
+  const handleSaveFavorite = () => {
+    if (!editing) return;
+    updateFavorite(editing.sightId, { folder: draftFolder.trim(), note: draftNote.trim() });
+    setEditing(null);
+  };
 
   const handleSightPress = (sightId: number | string) => {
-    router.push(`/sight/${sightId}`);
+    router.push({ pathname: "/sight/[id]", params: { id: String(sightId) } });
   };
   
   const handleTourPress = (tourId: string) => {
@@ -71,7 +123,7 @@ export default function FavoritesScreen() {
         >
           <MapPin size={20} color={activeTab === "sights" ? "#FFFFFF" : Colors.light.text} />
           <Text style={[styles.tabText, activeTab === "sights" && styles.activeTabText]}>
-            Sights ({favoriteSights.length})
+            Sights ({favorites.length})
           </Text>
         </TouchableOpacity>
         
@@ -86,20 +138,79 @@ export default function FavoritesScreen() {
         </TouchableOpacity>
       </View>
 
+      {/* Folders */}
+      {activeTab === "sights" && folders.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.folderBar}
+          contentContainerStyle={styles.folderBarContent}
+        >
+          {[ALL_FOLDERS, ...folders].map(folder => (
+            <TouchableOpacity
+              key={folder}
+              style={[styles.folderChip, activeFolder === folder && styles.selectedFolderChip]}
+              onPress={() => setSelectedFolder(folder)}
+            >
+              <Text style={[styles.folderChipText, activeFolder === folder && styles.selectedFolderChipText]}>
+                {folder === ALL_FOLDERS ? "All" : folder}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
       {/* Content */}
       {activeTab === "sights" ? (
-        favoriteSights.length === 0 ? (
+        favoriteSights.length === 0 && unresolvedInFolder.length === 0 ? (
           renderEmptyState()
         ) : (
           <FlatList
             data={favoriteSights}
             keyExtractor={(item) => item.id.toString()}
-            renderItem={({ item }) => (
-              <SightCard 
-                sight={item} 
-                onPress={() => handleSightPress(item.id)} 
-              />
-            )}
+            renderItem={({ item }) => {
+              const favorite = favoriteById.get(item.id.toString());
+              return (
+                <SightCard 
+                  sight={item} 
+                  onPress={() => handleSightPress(item.id)} 
+                >
+                  {favorite && (
+                    <View style={styles.favoriteDetails}>
+                      <View style={styles.favoriteText}>
+                        {favorite.folder && (
+                          <View style={styles.favoriteFolder}>
+                            <Folder size={12} color={Colors.light.inactive} />
+                            <Text style={styles.favoriteFolderText}>{favorite.folder}</Text>
+                          </View>
+                        )}
+                        {favorite.note && <Text style={styles.favoriteNote}>{favorite.note}</Text>}
+                      </View>
+                      <TouchableOpacity style={styles.editButton} onPress={() => openEditor(favorite)}>
+                        <Pencil size={16} color={Colors.light.primary} />
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </SightCard>
+              );
+            }}
+            ListFooterComponent={
+              <>
+                {unresolvedInFolder.map(favorite => (
+                  <View key={favorite.sightId} style={styles.unresolvedCard}>
+                    <View style={styles.favoriteText}>
+                      <Text style={styles.unresolvedTitle}>{favorite.note || "Saved sight"}</Text>
+                      <Text style={styles.favoriteNote}>
+                        {lookupErrors[favorite.sightId] ?? "Loading details…"}
+                      </Text>
+                    </View>
+                    <TouchableOpacity style={styles.editButton} onPress={() => toggleFavorite(favorite.sightId)}>
+                      <Trash2 size={16} color={Colors.light.inactive} />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </>
+            }
             contentContainerStyle={styles.listContent}
             showsVerticalScrollIndicator={false}
           />
@@ -142,6 +253,9 @@ export default function FavoritesScreen() {
                   {item.sights.slice(0, 3).map(sight => sight.name).join(" • ")}
                   {item.sights.length > 3 && ` • +${item.sights.length - 3} more`}
                 </Text>
+                <View style={styles.offlineBadge}>
+                  <OfflineBadge tourId={item.id} />
+                </View>
               </TouchableOpacity>
             )}
             contentContainerStyle={styles.listContent}
@@ -149,6 +263,63 @@ export default function FavoritesScreen() {
           />
         )
       )}
+
+      {/* Folder and note of a favorite */}
+      <Modal
+        animationType="slide"
+        transparent={true}
+        visible={!!editing}
+        onRequestClose={() => setEditing(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{editing?.sight?.name ?? "Saved sight"}</Text>
+
+            <Text style={styles.inputLabel}>Folder</Text>
+            <TextInput
+              style={styles.input}
+              value={draftFolder}
+              onChangeText={setDraftFolder}
+              placeholder="e.g. Rainy day, Next trip"
+              placeholderTextColor={Colors.light.inactive}
+            />
+            {folders.length > 0 && (
+              <View style={styles.folderOptions}>
+                {folders.map(folder => (
+                  <TouchableOpacity
+                    key={folder}
+                    style={[styles.folderChip, draftFolder === folder && styles.selectedFolderChip]}
+                    onPress={() => setDraftFolder(draftFolder === folder ? "" : folder)}
+                  >
+                    <Text style={[styles.folderChipText, draftFolder === folder && styles.selectedFolderChipText]}>
+                      {folder}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            <Text style={styles.inputLabel}>Note</Text>
+            <TextInput
+              style={[styles.input, styles.noteInput]}
+              value={draftNote}
+              onChangeText={setDraftNote}
+              placeholder="Why you saved it, when to go…"
+              placeholderTextColor={Colors.light.inactive}
+              multiline
+            />
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => setEditing(null)}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.confirmButton} onPress={handleSaveFavorite}>
+                <Text style={styles.confirmButtonText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -237,6 +408,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: Colors.light.inactive,
   },
+  offlineBadge: {
+    marginTop: 8,
+  },
   tourStats: {
     flexDirection: "row",
     justifyContent: "space-around",
@@ -263,4 +437,152 @@ const styles = StyleSheet.create({
     color: Colors.light.text,
     lineHeight: 20,
   },
+  folderBar: {
+    flexGrow: 0,
+    marginBottom: 4,
+  },
+  folderBarContent: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  folderChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    backgroundColor: Colors.light.card,
+  },
+  selectedFolderChip: {
+    backgroundColor: Colors.light.primary,
+    borderColor: Colors.light.primary,
+  },
+  folderChipText: {
+    fontSize: 13,
+    color: Colors.light.text,
+    fontWeight: "500",
+  },
+  selectedFolderChipText: {
+    color: "#FFFFFF",
+  },
+  favoriteDetails: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: Colors.light.border,
+  },
+  favoriteText: {
+    flex: 1,
+    gap: 4,
+  },
+  favoriteFolder: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  favoriteFolderText: {
+    fontSize: 12,
+    color: Colors.light.inactive,
+    fontWeight: "500",
+  },
+  favoriteNote: {
+    fontSize: 14,
+    color: Colors.light.text,
+    lineHeight: 20,
+  },
+  unresolvedCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: Colors.light.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  unresolvedTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.light.text,
+  },
+  editButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+  },
+  modalContent: {
+    backgroundColor: Colors.light.background,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 40,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: Colors.light.text,
+    marginBottom: 20,
+    textAlign: "center",
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.light.text,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 16,
+    color: Colors.light.text,
+    backgroundColor: Colors.light.background,
+    marginBottom: 12,
+  },
+  noteInput: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  folderOptions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  modalButtons: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 8,
+  },
+  cancelButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: Colors.light.text,
+    fontWeight: "500",
+  },
+  confirmButton: {
+    flex: 1,
+    backgroundColor: Colors.light.primary,
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  confirmButtonText: {
+    fontSize: 16,
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
 });
\ No newline at end of file
@@ -19,6 +19,8 @@ import { useSettingsStore } from "@/stores/settings-store";
 import { SightCard } from "@/components/SightCard";
 import MapView from "@/components/MapView";
 import Colors from "@/constants/colors";
+import { getSightProviders } from "@/utils/sight-providers";
+import { isOpenAt } from "@/utils/opening-hours";
 import { Sight } from "@/types/sight";
 import type { SightTier } from "@/types/sight"; 
 
@@ -32,7 +34,7 @@ function kmRadiusFromRegion(latDelta?: number) {
 function relevanceScore(s: Sight, regionLatDelta?: number) {
   const rating = Math.max(0, Math.min(5, s.rating ?? 0));
   const rNorm = Math.max(0, Math.min(1, (rating - 3) / 2)); // 3..5 -> 0..1
-  const reviews = (s as any).user_ratings_total || 0;
+  const reviews = s.userRatingsTotal || 0;
   const pop = 1 - Math.exp(-reviews / 200);
   const importance = 0.6 * rNorm + 0.4 * pop;
 
@@ -41,7 +43,9 @@ function relevanceScore(s: Sight, regionLatDelta?: number) {
   const x = Math.min(1, d / R);
   const decay = Math.exp(-2.0 * Math.pow(x, 1.5));
 
-  const openMult = (s as any).open_now === false ? 0.7 : 1.0;
+  // Weekly hours stay correct while the search snapshot of `openNow` ages in the cache
+  const openNow = s.openingHours ? isOpenAt(s.openingHours, new Date()) : s.openNow;
+  const openMult = openNow === false ? 0.7 : 1.0;
   return importance * decay * openMult;
 }
 
@@ -54,7 +58,9 @@ export default function NearbyScreen() {
   const [viewMode, setViewMode] = useState<"map" | "list">("map");
   const [sortMode, setSortMode] = useState<"relevance" | "distance">("relevance");
 
-  const { googleMapsApiKey, selectedTiers, toggleTier } = useSettingsStore();
+  const { selectedTiers, toggleTier } = useSettingsStore();
+  // re-evaluated whenever settings change, since the component subscribes to the whole store
+  const hasSightSource = getSightProviders().length > 0;
 
   const { sights, fetchNearbySights, userLocation, setUserLocation, lastRegion, filterByMapRegion } =
     useSightsStore();
@@ -82,7 +88,7 @@ export default function NearbyScreen() {
   }, []);
 
   const handleSightPress = (sightId: number | string) => {
-    router.push(`/sight/${sightId}`);
+    router.push({ pathname: "/sight/[id]", params: { id: String(sightId) } });
   };
 
   const handleTierToggle = (tier: SightTier) => {
@@ -137,11 +143,11 @@ export default function NearbyScreen() {
     );
   }
 
-  if (!googleMapsApiKey) {
+  if (!hasSightSource) {
     return (
       <View style={styles.centered}>
-        <Text style={styles.errorText}>Google Maps API key is required to fetch real sights.</Text>
-        <Text style={styles.errorSubtext}>Please add your API key in Settings to continue.</Text>
+        <Text style={styles.errorText}>No sight source is available.</Text>
+        <Text style={styles.errorSubtext}>Enable a sight source in Settings, or add the API key or file it needs.</Text>
         <TouchableOpacity style={styles.button} onPress={() => router.push("/(tabs)/settings")}>
           <Text style={styles.buttonText}>Go to Settings</Text>
         </TouchableOpacity>
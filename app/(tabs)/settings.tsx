@@ -1,10 +1,47 @@
 import { useState } from "react";
 import { StyleSheet, View, Text, TextInput, TouchableOpacity, ScrollView, Alert } from "react-native";
-import { Key, MapPin, Eye, EyeOff, User, Globe, Heart } from "lucide-react-native";
+import { Key, MapPin, Eye, EyeOff, User, Globe, Heart, Route, Mic, Download, Landmark, Sparkles, Drama } from "lucide-react-native";
 
-import { useSettingsStore } from "@/stores/settings-store";
+import { useSettingsStore, LlmProviderType, PersonaTemplate, RoutingProviderType, SightProviderType, VoiceStyle } from "@/stores/settings-store";
+import { useLlmUsageStore } from "@/stores/llm-usage-store";
+import { isLlmConfigured } from "@/utils/llm-client";
+import { DEFAULT_PERSONA_ID, NARRATION_PERSONAS, PERSONA_VARIABLES, isSameTemplate } from "@/utils/narration-personas";
 import Colors from "@/constants/colors";
 
+const ROUTING_PROVIDERS: { value: RoutingProviderType; label: string }[] = [
+  { value: "haversine", label: "Straight" },
+  { value: "google", label: "Google" },
+  { value: "osrm", label: "OSRM" },
+  { value: "valhalla", label: "Valhalla" },
+];
+
+const LLM_PROVIDERS: { value: LlmProviderType; label: string }[] = [
+  { value: "openai", label: "OpenAI" },
+  { value: "openai-compatible", label: "Own server" },
+  { value: "rork", label: "Rork" },
+  { value: "mock", label: "Mock" },
+];
+
+const DEFAULT_LLM_SERVER_URL = "http://localhost:11434/v1";
+
+const SIGHT_PROVIDERS: { value: SightProviderType; label: string }[] = [
+  { value: "google", label: "Google" },
+  { value: "overpass", label: "OpenStreetMap" },
+  { value: "wikipedia", label: "Wikipedia" },
+  { value: "local", label: "Local file" },
+];
+
+const DEFAULT_SIGHT_PROVIDERS: SightProviderType[] = ["google", "overpass", "wikipedia"];
+
+const MAP_TILE_URL_PLACEHOLDER = "https://tiles.example.com/{z}/{x}/{y}.png";
+
+const VOICE_STYLES: { value: VoiceStyle; label: string }[] = [
+  { value: "female", label: "Female" },
+  { value: "male", label: "Male" },
+  { value: "energetic", label: "Energetic" },
+  { value: "calm", label: "Calm" },
+];
+
 export default function SettingsScreen() {
   const { 
     googleMapsApiKey, 
@@ -12,20 +49,87 @@ export default function SettingsScreen() {
     userName,
     language,
     specialInterests,
+    voiceStyle,
+    routingProvider,
+    routingServerUrl,
+    mapTileUrl,
+    sightProviders,
+    localSightsUrl,
+    llmProvider,
+    llmServerUrl,
+    llmServerApiKey,
+    llmModel,
+    llmSpeechModel,
+    narrationPersona,
+    personaTemplates,
     setGoogleMapsApiKey, 
     setOpenAiApiKey,
     setUserName,
     setLanguage,
-    setSpecialInterests
+    setSpecialInterests,
+    setVoiceStyle,
+    setRoutingProvider,
+    setRoutingServerUrl,
+    setMapTileUrl,
+    setSightProviders,
+    setLocalSightsUrl,
+    setLlmProvider,
+    setLlmServerUrl,
+    setLlmServerApiKey,
+    setLlmModel,
+    setLlmSpeechModel,
+    setNarrationPersona,
+    setPersonaTemplates
   } = useSettingsStore();
+  const { byProvider: llmUsage, resetUsage: resetLlmUsage } = useLlmUsageStore();
   
   const [localGoogleKey, setLocalGoogleKey] = useState(googleMapsApiKey);
   const [localOpenAiKey, setLocalOpenAiKey] = useState(openAiApiKey);
   const [localUserName, setLocalUserName] = useState(userName);
   const [localLanguage, setLocalLanguage] = useState(language);
   const [localSpecialInterests, setLocalSpecialInterests] = useState(specialInterests);
+  const [localVoiceStyle, setLocalVoiceStyle] = useState<VoiceStyle>(voiceStyle);
+  const [localRoutingProvider, setLocalRoutingProvider] = useState<RoutingProviderType>(routingProvider);
+  const [localRoutingServerUrl, setLocalRoutingServerUrl] = useState(routingServerUrl);
+  const [localMapTileUrl, setLocalMapTileUrl] = useState(mapTileUrl);
+  const [localSightProviders, setLocalSightProviders] = useState<SightProviderType[]>(sightProviders);
+  const [localSightsFile, setLocalSightsFile] = useState(localSightsUrl);
   const [showGoogleKey, setShowGoogleKey] = useState(false);
   const [showOpenAiKey, setShowOpenAiKey] = useState(false);
+  const [localLlmProvider, setLocalLlmProvider] = useState<LlmProviderType>(llmProvider);
+  const [localLlmServerUrl, setLocalLlmServerUrl] = useState(llmServerUrl);
+  const [localLlmServerKey, setLocalLlmServerKey] = useState(llmServerApiKey);
+  const [localLlmModel, setLocalLlmModel] = useState(llmModel);
+  const [localLlmSpeechModel, setLocalLlmSpeechModel] = useState(llmSpeechModel);
+  const [localPersona, setLocalPersona] = useState(narrationPersona);
+  const [localPersonaTemplates, setLocalPersonaTemplates] = useState(personaTemplates);
+
+  const selectedPersona = NARRATION_PERSONAS.find((p) => p.id === localPersona) ?? NARRATION_PERSONAS[0];
+  const personaTemplate = localPersonaTemplates[selectedPersona.id] ?? selectedPersona.template;
+  const isPersonaEdited = !isSameTemplate(personaTemplate, selectedPersona.template);
+
+  const llmConfigured = isLlmConfigured({ llmProvider, openAiApiKey, llmServerUrl, llmServerApiKey, llmModel, llmSpeechModel });
+  const usageTotals = Object.values(llmUsage).reduce(
+    (sum, usage) => ({ requests: sum.requests + usage.requests, tokens: sum.tokens + usage.promptTokens + usage.completionTokens }),
+    { requests: 0, tokens: 0 }
+  );
+
+  const toggleSightProvider = (provider: SightProviderType) => {
+    setLocalSightProviders((current) =>
+      current.includes(provider) ? current.filter((p) => p !== provider) : [...current, provider]
+    );
+  };
+
+  const editPersonaTemplate = (changes: Partial<PersonaTemplate>) => {
+    setLocalPersonaTemplates((current) => ({
+      ...current,
+      [selectedPersona.id]: { ...personaTemplate, ...changes },
+    }));
+  };
+
+  const resetPersonaTemplate = () => {
+    setLocalPersonaTemplates(({ [selectedPersona.id]: _, ...rest }) => rest);
+  };
 
   const handleSaveSettings = () => {
     setGoogleMapsApiKey(localGoogleKey);
@@ -33,6 +137,27 @@ export default function SettingsScreen() {
     setUserName(localUserName);
     setLanguage(localLanguage);
     setSpecialInterests(localSpecialInterests);
+    setVoiceStyle(localVoiceStyle);
+    setRoutingProvider(localRoutingProvider);
+    setRoutingServerUrl(localRoutingServerUrl.trim());
+    setMapTileUrl(localMapTileUrl.trim());
+    setSightProviders(localSightProviders);
+    setLocalSightsUrl(localSightsFile.trim());
+    setLlmProvider(localLlmProvider);
+    setLlmServerUrl(localLlmServerUrl.trim() || DEFAULT_LLM_SERVER_URL);
+    setLlmServerApiKey(localLlmServerKey.trim());
+    setLlmModel(localLlmModel.trim());
+    setLlmSpeechModel(localLlmSpeechModel.trim());
+    setNarrationPersona(localPersona);
+    // Only templates that differ from their defaults are kept
+    setPersonaTemplates(
+      Object.fromEntries(
+        Object.entries(localPersonaTemplates).filter(([id, template]) => {
+          const persona = NARRATION_PERSONAS.find((p) => p.id === id);
+          return persona && !isSameTemplate(template, persona.template);
+        })
+      )
+    );
     Alert.alert("Success", "Settings have been saved successfully!");
   };
 
@@ -51,11 +176,35 @@ export default function SettingsScreen() {
             setLocalUserName("");
             setLocalLanguage("EN");
             setLocalSpecialInterests("");
+            setLocalVoiceStyle("female");
+            setLocalRoutingProvider("haversine");
+            setLocalMapTileUrl("");
+            setLocalSightProviders(DEFAULT_SIGHT_PROVIDERS);
+            setLocalSightsFile("");
+            setLocalLlmProvider("openai");
+            setLocalLlmServerUrl(DEFAULT_LLM_SERVER_URL);
+            setLocalLlmServerKey("");
+            setLocalLlmModel("");
+            setLocalLlmSpeechModel("");
+            setLocalPersona(DEFAULT_PERSONA_ID);
+            setLocalPersonaTemplates({});
             setGoogleMapsApiKey("");
             setOpenAiApiKey("");
             setUserName("");
             setLanguage("EN");
             setSpecialInterests("");
+            setVoiceStyle("female");
+            setRoutingProvider("haversine");
+            setMapTileUrl("");
+            setSightProviders(DEFAULT_SIGHT_PROVIDERS);
+            setLocalSightsUrl("");
+            setLlmProvider("openai");
+            setLlmServerUrl(DEFAULT_LLM_SERVER_URL);
+            setLlmServerApiKey("");
+            setLlmModel("");
+            setLlmSpeechModel("");
+            setNarrationPersona(DEFAULT_PERSONA_ID);
+            setPersonaTemplates({});
           },
         },
       ]
@@ -128,6 +277,33 @@ export default function SettingsScreen() {
           </View>
         </View>
 
+        <View style={styles.inputSection}>
+          <View style={styles.inputHeader}>
+            <Mic size={20} color={Colors.light.secondary} />
+            <Text style={styles.inputLabel}>Narrator Voice</Text>
+          </View>
+          <Text style={styles.inputDescription}>
+            Voice used to read audio guides aloud.
+          </Text>
+          <View style={styles.languageOptions}>
+            {VOICE_STYLES.map((style) => (
+              <TouchableOpacity
+                key={style.value}
+                style={[
+                  styles.languageOption,
+                  localVoiceStyle === style.value && styles.selectedLanguageOption
+                ]}
+                onPress={() => setLocalVoiceStyle(style.value)}
+              >
+                <Text style={[
+                  styles.languageOptionText,
+                  localVoiceStyle === style.value && styles.selectedLanguageOptionText
+                ]}>{style.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
         <View style={styles.inputSection}>
           <View style={styles.inputHeader}>
             <Heart size={20} color={Colors.light.secondary} />
@@ -148,6 +324,62 @@ export default function SettingsScreen() {
           />
         </View>
 
+        <View style={styles.inputSection}>
+          <View style={styles.inputHeader}>
+            <Drama size={20} color={Colors.light.secondary} />
+            <Text style={styles.inputLabel}>Narration Style</Text>
+          </View>
+          <Text style={styles.inputDescription}>
+            Who writes your audio guides. {selectedPersona.description}
+          </Text>
+          <View style={[styles.languageOptions, styles.wrappingOptions]}>
+            {NARRATION_PERSONAS.map((persona) => (
+              <TouchableOpacity
+                key={persona.id}
+                style={[
+                  styles.languageOption,
+                  styles.wrappingOption,
+                  localPersona === persona.id && styles.selectedLanguageOption
+                ]}
+                onPress={() => setLocalPersona(persona.id)}
+              >
+                <Text style={[
+                  styles.languageOptionText,
+                  localPersona === persona.id && styles.selectedLanguageOptionText
+                ]}>{persona.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            style={[styles.textInput, styles.multilineInput, styles.routingUrlInput]}
+            value={personaTemplate.system}
+            onChangeText={(system) => editPersonaTemplate({ system })}
+            placeholder="Who the narrator is"
+            placeholderTextColor={Colors.light.inactive}
+            multiline
+            textAlignVertical="top"
+          />
+          <TextInput
+            style={[styles.textInput, styles.templateInput, styles.routingUrlInput]}
+            value={personaTemplate.prompt}
+            onChangeText={(prompt) => editPersonaTemplate({ prompt })}
+            placeholder="What to write for each sight"
+            placeholderTextColor={Colors.light.inactive}
+            multiline
+            textAlignVertical="top"
+          />
+          <View style={styles.usageRow}>
+            <Text style={[styles.usageText, styles.usageHint]}>
+              Variables: {PERSONA_VARIABLES.map((name) => `{{${name}}}`).join(" ")}. Lines with an empty variable are left out.
+            </Text>
+            {isPersonaEdited && (
+              <TouchableOpacity onPress={resetPersonaTemplate}>
+                <Text style={styles.usageResetText}>Reset</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>API Configuration</Text>
           <Text style={styles.sectionDescription}>
@@ -161,7 +393,7 @@ export default function SettingsScreen() {
             <Text style={styles.inputLabel}>Google Maps API Key</Text>
           </View>
           <Text style={styles.inputDescription}>
-            Required for fetching real nearby places and location data.
+            Used by the Google sight source and Google routing. Without it, sights come from the other sources.
           </Text>
           <View style={styles.inputContainer}>
             <TextInput
@@ -219,6 +451,188 @@ export default function SettingsScreen() {
           </View>
         </View>
 
+        <View style={styles.inputSection}>
+          <View style={styles.inputHeader}>
+            <Sparkles size={20} color={Colors.light.secondary} />
+            <Text style={styles.inputLabel}>AI Text Provider</Text>
+          </View>
+          <Text style={styles.inputDescription}>
+            Writes narrations and plans tours. Use your own server for any OpenAI-compatible API, such as a local llama.cpp or Ollama. Mock gives fixed answers without a network.
+          </Text>
+          <View style={styles.languageOptions}>
+            {LLM_PROVIDERS.map((provider) => (
+              <TouchableOpacity
+                key={provider.value}
+                style={[
+                  styles.languageOption,
+                  localLlmProvider === provider.value && styles.selectedLanguageOption
+                ]}
+                onPress={() => setLocalLlmProvider(provider.value)}
+              >
+                <Text style={[
+                  styles.languageOptionText,
+                  localLlmProvider === provider.value && styles.selectedLanguageOptionText
+                ]}>{provider.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {localLlmProvider === "openai-compatible" && (
+            <>
+              <TextInput
+                style={[styles.textInput, styles.routingUrlInput]}
+                value={localLlmServerUrl}
+                onChangeText={setLocalLlmServerUrl}
+                placeholder={DEFAULT_LLM_SERVER_URL}
+                placeholderTextColor={Colors.light.inactive}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+              />
+              <TextInput
+                style={[styles.textInput, styles.routingUrlInput]}
+                value={localLlmServerKey}
+                onChangeText={setLocalLlmServerKey}
+                placeholder="API key (optional)"
+                placeholderTextColor={Colors.light.inactive}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <TextInput
+                style={[styles.textInput, styles.routingUrlInput]}
+                value={localLlmSpeechModel}
+                onChangeText={setLocalLlmSpeechModel}
+                placeholder="Speech model (optional, e.g. kokoro)"
+                placeholderTextColor={Colors.light.inactive}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <Text style={[styles.inputDescription, styles.fieldHint]}>
+                Only set a speech model if the server has an /audio/speech endpoint. Without one, narrations are voiced by OpenAI when a key is set, or by the device.
+              </Text>
+            </>
+          )}
+          {(localLlmProvider === "openai" || localLlmProvider === "openai-compatible") && (
+            <TextInput
+              style={[styles.textInput, styles.routingUrlInput]}
+              value={localLlmModel}
+              onChangeText={setLocalLlmModel}
+              placeholder={localLlmProvider === "openai" ? "Model (default gpt-4o-mini)" : "Model (default llama3.1)"}
+              placeholderTextColor={Colors.light.inactive}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          )}
+          <View style={styles.usageRow}>
+            <Text style={styles.usageText}>
+              Used so far: {usageTotals.requests} requests · {usageTotals.tokens.toLocaleString()} tokens
+            </Text>
+            {usageTotals.requests > 0 && (
+              <TouchableOpacity onPress={resetLlmUsage}>
+                <Text style={styles.usageResetText}>Reset</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+
+        <View style={styles.inputSection}>
+          <View style={styles.inputHeader}>
+            <Landmark size={20} color={Colors.light.primary} />
+            <Text style={styles.inputLabel}>Sight Sources</Text>
+          </View>
+          <Text style={styles.inputDescription}>
+            Where nearby sights come from. A place found in several sources is shown once, with each detail taken from the source that knows it best.
+          </Text>
+          <View style={styles.languageOptions}>
+            {SIGHT_PROVIDERS.map((provider) => (
+              <TouchableOpacity
+                key={provider.value}
+                style={[
+                  styles.languageOption,
+                  localSightProviders.includes(provider.value) && styles.selectedLanguageOption
+                ]}
+                onPress={() => toggleSightProvider(provider.value)}
+              >
+                <Text style={[
+                  styles.languageOptionText,
+                  localSightProviders.includes(provider.value) && styles.selectedLanguageOptionText
+                ]}>{provider.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {localSightProviders.includes("local") && (
+            <TextInput
+              style={[styles.textInput, styles.routingUrlInput]}
+              value={localSightsFile}
+              onChangeText={setLocalSightsFile}
+              placeholder="file:///… or https://…/sights.geojson"
+              placeholderTextColor={Colors.light.inactive}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+          )}
+        </View>
+
+        <View style={styles.inputSection}>
+          <View style={styles.inputHeader}>
+            <Route size={20} color={Colors.light.primary} />
+            <Text style={styles.inputLabel}>Routing</Text>
+          </View>
+          <Text style={styles.inputDescription}>
+            How tour distances and times are measured. Straight line works offline; the others follow actual streets and fall back to straight line when unreachable.
+          </Text>
+          <View style={styles.languageOptions}>
+            {ROUTING_PROVIDERS.map((provider) => (
+              <TouchableOpacity
+                key={provider.value}
+                style={[
+                  styles.languageOption,
+                  localRoutingProvider === provider.value && styles.selectedLanguageOption
+                ]}
+                onPress={() => setLocalRoutingProvider(provider.value)}
+              >
+                <Text style={[
+                  styles.languageOptionText,
+                  localRoutingProvider === provider.value && styles.selectedLanguageOptionText
+                ]}>{provider.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {(localRoutingProvider === "osrm" || localRoutingProvider === "valhalla") && (
+            <TextInput
+              style={[styles.textInput, styles.routingUrlInput]}
+              value={localRoutingServerUrl}
+              onChangeText={setLocalRoutingServerUrl}
+              placeholder="http://localhost:5000"
+              placeholderTextColor={Colors.light.inactive}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+          )}
+        </View>
+
+        <View style={styles.inputSection}>
+          <View style={styles.inputHeader}>
+            <Download size={20} color={Colors.light.secondary} />
+            <Text style={styles.inputLabel}>Offline Map Tiles</Text>
+          </View>
+          <Text style={styles.inputDescription}>
+            Tile server used when downloading a tour for offline use. It must allow bulk downloads, which public servers such as OpenStreetMap's don't; use your own or a commercial one. Leave empty to download tours without a map.
+          </Text>
+          <TextInput
+            style={styles.textInput}
+            value={localMapTileUrl}
+            onChangeText={setLocalMapTileUrl}
+            placeholder={MAP_TILE_URL_PLACEHOLDER}
+            placeholderTextColor={Colors.light.inactive}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+        </View>
+
         <View style={styles.infoSection}>
           <Text style={styles.infoTitle}>How to get API keys:</Text>
           <Text style={styles.infoText}>
@@ -265,6 +679,12 @@ export default function SettingsScreen() {
               OpenAI API: {openAiApiKey ? "Configured" : "Not configured"}
             </Text>
           </View>
+          <View style={styles.statusItem}>
+            <View style={[styles.statusDot, { backgroundColor: llmConfigured ? Colors.light.success : Colors.light.error }]} />
+            <Text style={styles.statusText}>
+              AI text ({LLM_PROVIDERS.find((p) => p.value === llmProvider)?.label}): {llmConfigured ? "Configured" : "Not configured"}
+            </Text>
+          </View>
         </View>
       </View>
     </ScrollView>
@@ -337,6 +757,35 @@ const styles = StyleSheet.create({
   multilineInput: {
     minHeight: 80,
   },
+  templateInput: {
+    minHeight: 160,
+  },
+  routingUrlInput: {
+    marginTop: 12,
+  },
+  fieldHint: {
+    marginTop: 8,
+    marginBottom: 0,
+  },
+  usageRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 12,
+  },
+  usageText: {
+    fontSize: 14,
+    color: Colors.light.inactive,
+  },
+  usageHint: {
+    flex: 1,
+    marginRight: 12,
+  },
+  usageResetText: {
+    fontSize: 14,
+    color: Colors.light.primary,
+    fontWeight: "500",
+  },
   eyeButton: {
     padding: 8,
   },
@@ -344,6 +793,12 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     gap: 12,
   },
+  wrappingOptions: {
+    flexWrap: "wrap",
+  },
+  wrappingOption: {
+    flexBasis: "30%",
+  },
   languageOption: {
     flex: 1,
     borderWidth: 1,
@@ -1,17 +1,52 @@
 import { useState } from "react";
-import { StyleSheet, View, Text, ScrollView, TouchableOpacity, TextInput, ActivityIndicator, Alert, Modal, FlatList } from "react-native";
+import { StyleSheet, View, Text, ScrollView, TouchableOpacity, TextInput, ActivityIndicator, Alert, Modal, FlatList, Share } from "react-native";
 import { useRouter } from "expo-router";
-import { MapPin, Navigation, Shuffle, Save, Folder, Trash2, ChevronDown, ChevronUp, RotateCcw } from "lucide-react-native";
+import { MapPin, Navigation, Shuffle, Save, Folder, Trash2, ChevronDown, ChevronUp, RotateCcw, Flag, Play, Share2, FileDown, FileUp } from "lucide-react-native";
 
 import { useSightsStore } from "@/stores/sights-store";
-import { useTourStore } from "@/stores/tour-store";
-import { useSettingsStore, TourWizardSettings, AudioLength, TransportMode } from "@/stores/settings-store";
+import { useTourStore, getTourDays, TourLeg } from "@/stores/tour-store";
+import { useSettingsStore, TourWizardSettings, AudioLength, TransportMode, TourEndPoint } from "@/stores/settings-store";
 import { TourSightCard } from "@/components/TourSightCard";
 import { TourMapView } from "@/components/TourMapView";
+import { EndPointPicker } from "@/components/EndPointPicker";
+import { ActiveTourPanel } from "@/components/ActiveTourPanel";
+import { NowPlayingBar } from "@/components/NowPlayingBar";
+import { OfflineBadge } from "@/components/OfflineBadge";
+import { OfflineDownloadPanel } from "@/components/OfflineDownloadPanel";
+import { useActiveTourStore } from "@/stores/active-tour-store";
 import Colors from "@/constants/colors";
 import { SightTier } from "@/types/sight";
+import { formatClockTime } from "@/utils/opening-hours";
+import { createTourLink } from "@/utils/tour-link";
+import { TourFileFormat, shareTourFile } from "@/utils/tour-export";
+import { pickTourFile } from "@/utils/tour-import";
+import { shareTourBooklet } from "@/utils/tour-booklet";
 
 
+const START_TIME_STEP_MINUTES = 30;
+
+const EXPORT_FORMATS: { format: TourFileFormat; label: string; description: string }[] = [
+  { format: "gpx", label: "GPX", description: "Waypoints and a route per day, for navigation apps" },
+  { format: "kml", label: "KML", description: "Placemarks and day lines, for Google Earth and My Maps" },
+  { format: "geojson", label: "GeoJSON", description: "Stops and routes, for GIS tools" },
+];
+
+// Move a "HH:MM" start time by `minutes`; starting from "now" snaps to the next step
+function shiftStartTime(startTime: string | undefined, minutes: number): string {
+  let total: number;
+  if (startTime) {
+    const [hours, mins] = startTime.split(":").map(Number);
+    total = hours * 60 + mins + minutes;
+  } else {
+    const now = new Date();
+    const current = now.getHours() * 60 + now.getMinutes();
+    total = minutes > 0 ?
+      Math.ceil((current + 1) / START_TIME_STEP_MINUTES) * START_TIME_STEP_MINUTES :
+      Math.floor((current - 1) / START_TIME_STEP_MINUTES) * START_TIME_STEP_MINUTES;
+  }
+  total = ((total % 1440) + 1440) % 1440;
+  return `${Math.floor(total / 60).toString().padStart(2, "0")}:${(total % 60).toString().padStart(2, "0")}`;
+}
 
 export default function TourPlannerScreen() {
   const router = useRouter();
@@ -25,13 +60,18 @@ export default function TourPlannerScreen() {
     clearTour,
     saveTour,
     loadTour,
-    deleteTour
+    deleteTour,
+    importTour
   } = useTourStore();
+  const activeTour = useActiveTourStore();
   
 
   const [viewMode, setViewMode] = useState("plan"); // 'plan' or 'map'
+  const [selectedDay, setSelectedDay] = useState(0);
   const [saveModalVisible, setSaveModalVisible] = useState(false);
   const [savedToursModalVisible, setSavedToursModalVisible] = useState(false);
+  const [exportModalVisible, setExportModalVisible] = useState(false);
+  const [endPointPickerVisible, setEndPointPickerVisible] = useState(false);
   const [localSettings, setLocalSettings] = useState<TourWizardSettings>({
     numberOfDays: 1,
     dailyDurationHours: 2,
@@ -63,6 +103,11 @@ export default function TourPlannerScreen() {
       return;
     }
 
+    if (localSettings.tourType === "point-to-point" && !localSettings.endPoint) {
+      Alert.alert("End Point Required", "Please choose where your point-to-point tour should end.");
+      return;
+    }
+
     const settings = {
       ...localSettings,
       maxLengthKm: distance,
@@ -70,6 +115,7 @@ export default function TourPlannerScreen() {
 
     try {
       await generateTour(userLocation, distance, sights, settings);
+      setSelectedDay(0);
     } catch (error) {
       Alert.alert(
         "Tour Generation Failed", 
@@ -104,8 +150,26 @@ export default function TourPlannerScreen() {
     setTourDistanceInput("5");
   };
 
-  const handleSightPress = (sightId: number) => {
-    router.push(`/sight/${sightId}`);
+  const handleSelectEndPoint = (endPoint: TourEndPoint) => {
+    updateSetting('endPoint', endPoint);
+    setEndPointPickerVisible(false);
+  };
+
+  const handleStartTour = async () => {
+    await activeTour.startTour(Math.min(selectedDay, tourDays.length - 1));
+    const { error } = useActiveTourStore.getState();
+    if (error) {
+      Alert.alert("Cannot Start Tour", error);
+    }
+  };
+
+  const handleNewTour = () => {
+    activeTour.stopTour();
+    clearTour();
+  };
+
+  const handleSightPress = (sightId: number | string) => {
+    router.push({ pathname: "/sight/[id]", params: { id: String(sightId) } });
   };
 
   const handleSaveTour = () => {
@@ -119,7 +183,9 @@ export default function TourPlannerScreen() {
   };
 
   const handleLoadTour = (tourId: string) => {
+    activeTour.stopTour();
     loadTour(tourId);
+    setSelectedDay(0);
     setSavedToursModalVisible(false);
   };
 
@@ -138,6 +204,50 @@ export default function TourPlannerScreen() {
     );
   };
 
+  // A link the group can open to get the same tour
+  const handleShareTour = async () => {
+    if (!currentTour) return;
+    const url = createTourLink(currentTour);
+    try {
+      await Share.share({ message: `${currentTour.name}: ${url}`, url });
+    } catch (error) {
+      Alert.alert("Sharing Failed", error instanceof Error ? error.message : "Could not share this tour.");
+    }
+  };
+
+  // The tour as a file for navigation apps and GIS tools, through the system share sheet
+  const handleExportTour = async (format: TourFileFormat) => {
+    if (!currentTour) return;
+    setExportModalVisible(false);
+    try {
+      await shareTourFile(currentTour, format);
+    } catch (error) {
+      Alert.alert("Export Failed", error instanceof Error ? error.message : "Could not export this tour.");
+    }
+  };
+
+  // A printable handout with the map, descriptions and saved narrations
+  const handleExportBooklet = async () => {
+    if (!currentTour) return;
+    setExportModalVisible(false);
+    try {
+      await shareTourBooklet(currentTour);
+    } catch (error) {
+      Alert.alert("Export Failed", error instanceof Error ? error.message : "Could not create the booklet.");
+    }
+  };
+
+  const handleImportTourFile = async () => {
+    try {
+      const tour = await pickTourFile();
+      if (!tour) return;
+      importTour(tour);
+      handleLoadTour(tour.id);
+    } catch (error) {
+      Alert.alert("Import Failed", error instanceof Error ? error.message : "Could not read this file.");
+    }
+  };
+
   const formatDuration = (minutes: number) => {
     const hours = Math.floor(minutes / 60);
     const mins = minutes % 60;
@@ -147,8 +257,20 @@ export default function TourPlannerScreen() {
     return `${mins}m`;
   };
 
+  const renderLeg = (label: string, leg: TourLeg) => (
+    <View style={styles.legRow}>
+      <Text style={styles.legLabel}>{label}</Text>
+      <Text style={styles.legText}>
+        {leg.distance.toFixed(1)}km • {leg.walkingTime}min
+      </Text>
+    </View>
+  );
+
   const greeting = userName ? `Hello ${userName}!` : "Hello!";
 
+  const tourDays = currentTour ? getTourDays(currentTour) : [];
+  const activeDay = tourDays[Math.min(selectedDay, tourDays.length - 1)];
+
   return (
     <View style={styles.container}>
       {!currentTour ? (
@@ -173,6 +295,14 @@ export default function TourPlannerScreen() {
             </TouchableOpacity>
           )}
 
+          <TouchableOpacity
+            style={styles.savedToursButton}
+            onPress={handleImportTourFile}
+          >
+            <FileUp size={20} color={Colors.light.primary} />
+            <Text style={styles.savedToursButtonText}>Import GPX / GeoJSON</Text>
+          </TouchableOpacity>
+
           <View style={styles.statusSection}>
             <View style={styles.statusItem}>
               <View style={[styles.statusDot, { backgroundColor: userLocation ? Colors.light.success : Colors.light.error }]} />
@@ -247,6 +377,28 @@ export default function TourPlannerScreen() {
                   </View>
                 </View>
 
+                <View style={styles.settingRow}>
+                  <Text style={styles.settingLabel}>Start:</Text>
+                  <View style={styles.numberInput}>
+                    <TouchableOpacity 
+                      style={styles.numberButton}
+                      onPress={() => updateSetting('startTime', shiftStartTime(localSettings.startTime, -START_TIME_STEP_MINUTES))}
+                    >
+                      <Text style={styles.numberButtonText}>-</Text>
+                    </TouchableOpacity>
+                    {/* Tapping the time goes back to starting right away */}
+                    <TouchableOpacity onPress={() => updateSetting('startTime', undefined)}>
+                      <Text style={styles.numberValue}>{localSettings.startTime ?? "Now"}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity 
+                      style={styles.numberButton}
+                      onPress={() => updateSetting('startTime', shiftStartTime(localSettings.startTime, START_TIME_STEP_MINUTES))}
+                    >
+                      <Text style={styles.numberButtonText}>+</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+
                 <View style={styles.settingRow}>
                   <Text style={styles.settingLabel}>Daily hours:</Text>
                   <View style={styles.numberInput}>
@@ -352,6 +504,18 @@ export default function TourPlannerScreen() {
                     </Text>
                   </TouchableOpacity>
                 </View>
+
+                {localSettings.tourType === "point-to-point" && (
+                  <TouchableOpacity
+                    style={styles.endPointButton}
+                    onPress={() => setEndPointPickerVisible(true)}
+                  >
+                    <Flag size={16} color={Colors.light.primary} />
+                    <Text style={styles.endPointText} numberOfLines={1}>
+                      {localSettings.endPoint ? `End at ${localSettings.endPoint.name}` : "Choose end point"}
+                    </Text>
+                  </TouchableOpacity>
+                )}
               </View>
 
               {/* Detail Level */}
@@ -429,6 +593,18 @@ export default function TourPlannerScreen() {
           <View style={styles.tourHeader}>
             <View style={styles.tourTitleRow}>
               <Text style={styles.tourTitle}>{currentTour.name}</Text>
+              <TouchableOpacity
+                style={styles.saveButton}
+                onPress={handleShareTour}
+              >
+                <Share2 size={16} color={Colors.light.primary} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.saveButton}
+                onPress={() => setExportModalVisible(true)}
+              >
+                <FileDown size={16} color={Colors.light.primary} />
+              </TouchableOpacity>
               <TouchableOpacity
                 style={styles.saveButton}
                 onPress={() => setSaveModalVisible(true)}
@@ -437,19 +613,48 @@ export default function TourPlannerScreen() {
               </TouchableOpacity>
             </View>
 
+            {tourDays.length > 1 && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.dayTabs}
+                contentContainerStyle={styles.dayTabsContent}
+              >
+                {tourDays.map((day, index) => (
+                  <TouchableOpacity
+                    key={day.day}
+                    style={[styles.dayTab, activeDay === day && styles.activeDayTab]}
+                    onPress={() => setSelectedDay(index)}
+                  >
+                    <Text style={[styles.dayTabText, activeDay === day && styles.activeDayTabText]}>
+                      Day {day.day}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            )}
+
             <View style={styles.tourStats}>
               <View style={styles.statItem}>
-                <Text style={styles.statValue}>{currentTour.sights.length}</Text>
+                <Text style={styles.statValue}>{activeDay.sights.length}</Text>
                 <Text style={styles.statLabel}>Stops</Text>
               </View>
               <View style={styles.statItem}>
-                <Text style={styles.statValue}>{currentTour.totalDistance.toFixed(1)}km</Text>
+                <Text style={styles.statValue}>{activeDay.totalDistance.toFixed(1)}km</Text>
                 <Text style={styles.statLabel}>Distance</Text>
               </View>
               <View style={styles.statItem}>
-                <Text style={styles.statValue}>{formatDuration(currentTour.estimatedDuration)}</Text>
+                <Text style={styles.statValue}>{formatDuration(activeDay.estimatedDuration)}</Text>
                 <Text style={styles.statLabel}>Duration</Text>
               </View>
+              {activeDay.startsAt && activeDay.endsAt && (
+                <View style={styles.statItem}>
+                  <Text style={styles.statValue}>
+                    {formatClockTime(activeDay.startsAt)}–{formatClockTime(activeDay.endsAt)}
+                  </Text>
+                  <Text style={styles.statLabel}>Schedule</Text>
+                </View>
+              )}
             </View>
 
             <View style={styles.tourControls}>
@@ -468,39 +673,78 @@ export default function TourPlannerScreen() {
                 </TouchableOpacity>
               </View>
 
-              <TouchableOpacity
-                style={styles.newTourButton}
-                onPress={clearTour}
-              >
-                <Text style={styles.newTourButtonText}>New Tour</Text>
-              </TouchableOpacity>
+              <View style={styles.tourActions}>
+                {!activeTour.isActive && (
+                  <TouchableOpacity
+                    style={styles.startTourButton}
+                    onPress={handleStartTour}
+                  >
+                    <Play size={14} color="#FFFFFF" />
+                    <Text style={styles.startTourButtonText}>Start</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  style={styles.newTourButton}
+                  onPress={handleNewTour}
+                >
+                  <Text style={styles.newTourButtonText}>New Tour</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            <View style={styles.offlinePanel}>
+              <OfflineDownloadPanel tour={currentTour} />
             </View>
           </View>
 
+          {tourDays[activeTour.dayIndex] && (
+            <ActiveTourPanel day={tourDays[activeTour.dayIndex]} />
+          )}
+
           {viewMode === "plan" ? (
             <ScrollView style={styles.tourList} showsVerticalScrollIndicator={false}>
-              {currentTour.sights.map((sight, index) => (
+              {activeDay.startLeg && renderLeg(`From ${currentTour.start?.name ?? "Start"}`, activeDay.startLeg)}
+              {activeDay.sights.map((sight, index) => (
                 <TourSightCard
                   key={sight.id}
                   sight={sight}
                   index={index}
-                  isLast={index === currentTour.sights.length - 1}
-                  onPress={() => handleSightPress(sight.id as number)}
+                  isLast={index === activeDay.sights.length - 1}
+                  onPress={() => handleSightPress(sight.id)}
                 />
               ))}
+              {activeDay.endLeg && renderLeg(
+                currentTour.end && currentTour.end.name !== currentTour.start?.name ?
+                  `To ${currentTour.end.name}` :
+                  "Back to start",
+                activeDay.endLeg
+              )}
             </ScrollView>
           ) : (
             userLocation && (
               <TourMapView
                 tour={currentTour}
+                day={activeDay}
                 userLocation={userLocation}
                 onSightPress={handleSightPress}
               />
             )
           )}
+
+          <NowPlayingBar />
         </View>
       )}
 
+      {userLocation && (
+        <EndPointPicker
+          visible={endPointPickerVisible}
+          sights={sights}
+          userLocation={userLocation}
+          onClose={() => setEndPointPickerVisible(false)}
+          onSelect={handleSelectEndPoint}
+        />
+      )}
+
       {/* Save Tour Modal */}
       <Modal
         animationType="slide"
@@ -539,6 +783,46 @@ export default function TourPlannerScreen() {
         </View>
       </Modal>
 
+      {/* Export Tour Modal */}
+      <Modal
+        animationType="slide"
+        transparent={true}
+        visible={exportModalVisible}
+        onRequestClose={() => setExportModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Export Tour</Text>
+
+            <TouchableOpacity
+              style={styles.exportOption}
+              onPress={handleExportBooklet}
+            >
+              <Text style={styles.exportOptionLabel}>PDF Booklet</Text>
+              <Text style={styles.exportOptionDescription}>Map, stops, descriptions and narrations, ready to print</Text>
+            </TouchableOpacity>
+
+            {EXPORT_FORMATS.map(({ format, label, description }) => (
+              <TouchableOpacity
+                key={format}
+                style={styles.exportOption}
+                onPress={() => handleExportTour(format)}
+              >
+                <Text style={styles.exportOptionLabel}>{label}</Text>
+                <Text style={styles.exportOptionDescription}>{description}</Text>
+              </TouchableOpacity>
+            ))}
+
+            <TouchableOpacity
+              style={styles.closeButton}
+              onPress={() => setExportModalVisible(false)}
+            >
+              <Text style={styles.closeButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
       {/* Saved Tours Modal */}
       <Modal
         animationType="slide"
@@ -561,11 +845,15 @@ export default function TourPlannerScreen() {
                   >
                     <Text style={styles.savedTourName}>{item.name}</Text>
                     <Text style={styles.savedTourDetails}>
+                      {item.days && item.days.length > 1 && `${item.days.length} days • `}
                       {item.sights.length} stops • {item.totalDistance.toFixed(1)}km • {formatDuration(item.estimatedDuration)}
                     </Text>
                     <Text style={styles.savedTourDate}>
                       Created: {new Date(item.createdAt).toLocaleDateString()}
                     </Text>
+                    <View style={styles.savedTourBadge}>
+                      <OfflineBadge tourId={item.id} />
+                    </View>
                   </TouchableOpacity>
                   
                   <TouchableOpacity
@@ -855,6 +1143,23 @@ const styles = StyleSheet.create({
   selectedTourTypeText: {
     color: "#FFFFFF",
   },
+  endPointButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: Colors.light.background,
+    borderWidth: 1,
+    borderColor: Colors.light.primary,
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 8,
+  },
+  endPointText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: "500",
+    color: Colors.light.primary,
+  },
   detailGrid: {
     flexDirection: "row",
     gap: 6,
@@ -964,6 +1269,33 @@ const styles = StyleSheet.create({
   saveButton: {
     padding: 8,
   },
+  dayTabs: {
+    marginBottom: 16,
+    flexGrow: 0,
+  },
+  dayTabsContent: {
+    gap: 8,
+  },
+  dayTab: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    backgroundColor: Colors.light.background,
+  },
+  activeDayTab: {
+    backgroundColor: Colors.light.primary,
+    borderColor: Colors.light.primary,
+  },
+  dayTabText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: Colors.light.text,
+  },
+  activeDayTabText: {
+    color: "#FFFFFF",
+  },
   tourStats: {
     flexDirection: "row",
     justifyContent: "space-around",
@@ -987,6 +1319,9 @@ const styles = StyleSheet.create({
     justifyContent: "space-between",
     alignItems: "center",
   },
+  offlinePanel: {
+    marginTop: 12,
+  },
   viewToggle: {
     flexDirection: "row",
     backgroundColor: Colors.light.background,
@@ -1010,6 +1345,25 @@ const styles = StyleSheet.create({
   activeToggleText: {
     color: "#FFFFFF",
   },
+  tourActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  startTourButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: Colors.light.primary,
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+  },
+  startTourButtonText: {
+    fontSize: 14,
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
   newTourButton: {
     borderWidth: 1,
     borderColor: Colors.light.primary,
@@ -1026,6 +1380,26 @@ const styles = StyleSheet.create({
     flex: 1,
     padding: 16,
   },
+  legRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    backgroundColor: Colors.light.card,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginBottom: 8,
+  },
+  legLabel: {
+    fontSize: 12,
+    color: Colors.light.text,
+    fontWeight: "500",
+  },
+  legText: {
+    fontSize: 12,
+    color: Colors.light.inactive,
+    fontWeight: "500",
+  },
   modalOverlay: {
     flex: 1,
     justifyContent: "flex-end",
@@ -1123,6 +1497,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: Colors.light.inactive,
   },
+  savedTourBadge: {
+    marginTop: 6,
+  },
   deleteTourButton: {
     padding: 8,
   },
@@ -1138,4 +1515,20 @@ const styles = StyleSheet.create({
     color: Colors.light.text,
     fontWeight: "500",
   },
+  exportOption: {
+    backgroundColor: Colors.light.card,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  exportOptionLabel: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.light.text,
+    marginBottom: 2,
+  },
+  exportOptionDescription: {
+    fontSize: 14,
+    color: Colors.light.inactive,
+  },
 });
\ No newline at end of file
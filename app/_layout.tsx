@@ -6,6 +6,8 @@ import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { StatusBar } from "expo-status-bar";
 import 'react-native-reanimated';
 
+import { useOfflineStore } from "@/stores/offline-store";
+
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
@@ -24,6 +26,7 @@ function RootLayoutNav() {
     }}>
       <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
       <Stack.Screen name="sight/[id]" options={{ headerShown: true, title: "Sight Details" }} />
+      <Stack.Screen name="tour/[encoded]" options={{ headerShown: true, title: "Shared Tour" }} />
     </Stack>
   );
 }
@@ -31,6 +34,7 @@ function RootLayoutNav() {
 export default function RootLayout() {
   useEffect(() => {
     SplashScreen.hideAsync();
+    useOfflineStore.getState().resumeInterruptedDownloads();
   }, []);
 
   return (
@@ -1,51 +1,140 @@
 import { useEffect, useState } from "react";
-import { StyleSheet, View, Text, Image, ScrollView, TouchableOpacity, Modal, Platform, ActivityIndicator, FlatList, Alert } from "react-native";
+import { StyleSheet, View, Text, Image, ScrollView, TouchableOpacity, Modal, Platform, ActivityIndicator, FlatList, Alert, Linking, Share } from "react-native";
 import { useLocalSearchParams, Stack, useRouter } from "expo-router";
-import { Bookmark, BookmarkCheck, Volume2, Archive, Trash2, Calendar, Globe, Clock, Pause } from "lucide-react-native";
+import { Bookmark, BookmarkCheck, Volume2, Archive, Trash2, Calendar, Globe, Clock, Pause, Landmark, Award, Phone, Share2, Mic } from "lucide-react-native";
 // import * as Speech from "expo-speech"; // (no direct import; utils/tts will lazy-load expo-speech if needed)
 import * as Haptics from "expo-haptics";
+import * as ExpoLinking from "expo-linking";
 
-import { speakNatural, stopNatural } from "@/utils/tts";
+import { speakNatural, stopNatural, startNarrationStream } from "@/utils/tts";
+import { needsEnrichment } from "@/utils/sight-enrichment";
+import { findKnownSight, loadSight } from "@/utils/sight-lookup";
+import { describeOpeningHours } from "@/utils/opening-hours";
+import { calculateDistance } from "@/utils/geo";
+import { isLlmConfigured } from "@/utils/llm-client";
+import { getNarrationPersona, personaLabel } from "@/utils/narration-personas";
+import { NowPlayingBar } from "@/components/NowPlayingBar";
 
 import { useSightsStore } from "@/stores/sights-store";
+import { useTourStore } from "@/stores/tour-store";
 import { useSettingsStore, AudioLength } from "@/stores/settings-store";
-import { SavedContent } from "@/types/sight";
+import { usePlayerStore } from "@/stores/player-store";
+import { useActiveTourStore } from "@/stores/active-tour-store";
+import { useOfflineImage } from "@/stores/offline-store";
+import { SavedContent, Sight } from "@/types/sight";
 import Colors from "@/constants/colors";
 
 export default function SightDetailScreen() {
   const { id } = useLocalSearchParams();
   const router = useRouter();
-  const { sights, toggleFavorite, favorites, generateSightContent, deleteSavedContent } = useSightsStore();
-  const { openAiApiKey, language: defaultLanguage, audioLength, specialInterests } = useSettingsStore();
+  const {
+    toggleFavorite,
+    favorites,
+    generateSightContent,
+    getSavedContent,
+    deleteSavedContent,
+    findSavedContentByText,
+    linkSavedContentAudio,
+    enrichSight,
+    rememberSight,
+    userLocation,
+  } = useSightsStore();
+  const settings = useSettingsStore();
+  const { language: defaultLanguage, audioLength, specialInterests } = settings;
+  const hasLlm = isLlmConfigured(settings);
   
   // Handle both string and string array from useLocalSearchParams
   const sightId = Array.isArray(id) ? id[0] : id;
-  const sight = sights.find(s => s.id.toString() === sightId);
+  // Links, favorites and tour stops may point outside the current map region;
+  // subscribe to the tours so a stop found there stays current
+  useTourStore((state) => state.currentTour);
+  useTourStore((state) => state.savedTours);
+  const sight = sightId ? findKnownSight(sightId) : undefined;
+  const isKnown = !!sight;
+  const [lookupError, setLookupError] = useState<string | null>(null);
+  const [lookupAttempt, setLookupAttempt] = useState(0);
   
   const [modalVisible, setModalVisible] = useState(false);
   const [savedContentModalVisible, setSavedContentModalVisible] = useState(false);
   const [selectedLength, setSelectedLength] = useState<AudioLength>(audioLength);
-  const [isSpeaking, setIsSpeaking] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedContent, setGeneratedContent] = useState<string>("");
   const [currentSavedContent, setCurrentSavedContent] = useState<SavedContent | null>(null);
+  const [isEnriching, setIsEnriching] = useState(false);
 
+  // The guide for this sight is playing when the player's current track belongs to it
+  const nowPlaying = usePlayerStore((state) => state.nowPlaying);
+  const isSpeaking = !!sight && nowPlaying?.sightId?.toString() === sight.id.toString();
+  const imageUri = useOfflineImage(sight?.imageUrl ?? "");
+
+  // Stop this sight's guide when leaving the screen (unless a live tour narrates it);
+  // locking the phone keeps it playing
   useEffect(() => {
     return () => {
-      if (isSpeaking) stopNatural();
+      const current = usePlayerStore.getState().nowPlaying;
+      if (useActiveTourStore.getState().isActive) return;
+      if (current && current.sightId?.toString() === sightId) stopNatural();
     };
-  }, [isSpeaking]);
+  }, [sightId]);
+
+  // Not known anywhere on the device: look it up
+  useEffect(() => {
+    if (!sightId || isKnown) return;
+    let cancelled = false;
+    setLookupError(null);
+    loadSight(sightId).catch((error) => {
+      if (!cancelled) setLookupError(error instanceof Error ? error.message : "Could not load this sight.");
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sightId, isKnown, lookupAttempt]);
+
+  // A favorite snapshot or tour stop isn't in the sight cache, which the store's actions
+  // (narrations, enrichment, favorites) work on; add it like a looked-up sight
+  useEffect(() => {
+    if (!sight) return;
+    const { allSights, sights } = useSightsStore.getState();
+    const matches = (s: Sight) => s.id.toString() === sight.id.toString();
+    if (!allSights.some(matches) && !sights.some(matches)) rememberSight(sight);
+  }, [sight]);
+
+  // Descriptions, history and opening hours beyond what the nearby search returned
+  useEffect(() => {
+    const current = useSightsStore.getState().allSights.find((s) => s.id.toString() === sightId);
+    if (!sightId || !isKnown || (current && !needsEnrichment(current))) return;
+    let cancelled = false;
+    setIsEnriching(true);
+    enrichSight(sightId).finally(() => {
+      if (!cancelled) setIsEnriching(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sightId, isKnown]);
 
   if (!sight) {
     return (
       <View style={styles.centered}>
-        <Text style={styles.errorText}>Sight not found</Text>
+        {lookupError ? (
+          <>
+            <Text style={styles.errorText}>{lookupError}</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={() => setLookupAttempt((n) => n + 1)}>
+              <Text style={styles.retryButtonText}>Try again</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <ActivityIndicator size="large" color={Colors.light.primary} />
+            <Text style={styles.loadingText}>Loading sight...</Text>
+          </>
+        )}
       </View>
     );
   }
 
   // Check if sight is in favorites (handle both string and number IDs)
-  const isFavorite = favorites.includes(sight.id.toString());
+  const isFavorite = favorites.some(f => f.sightId === sight.id.toString());
 
   const handleFavoritePress = () => {
     if (Platform.OS !== "web") {
@@ -54,15 +143,44 @@ export default function SightDetailScreen() {
     toggleFavorite(sight.id);
   };
 
+  const handleSharePress = async () => {
+    const url = ExpoLinking.createURL(`/sight/${encodeURIComponent(sight.id.toString())}`);
+    try {
+      await Share.share({ message: `${sight.name}: ${url}`, url });
+    } catch (error) {
+      Alert.alert("Sharing Failed", error instanceof Error ? error.message : "Could not share this sight.");
+    }
+  };
+
   const startSpeech = async () => {
     setIsGenerating(true);
     try {
+      // New narrations are shown and spoken while they are being written
+      if (!getSavedContent(sight.id, defaultLanguage, selectedLength, specialInterests || "general", getNarrationPersona().key)) {
+        setGeneratedContent("");
+        const narration = startNarrationStream({ title: sight.name, artwork: sight.imageUrl, sightId: sight.id });
+        const text = await generateSightContent(sight, defaultLanguage, selectedLength, (delta) => {
+          setGeneratedContent((previous) => previous + delta);
+          narration.push(delta);
+        });
+        setGeneratedContent(text);
+        await narration.finish();
+        return;
+      }
+
       const text = await generateSightContent(sight, defaultLanguage, selectedLength);
       setGeneratedContent(text);
-      await speakNatural(text, {
-        onStart: () => setIsSpeaking(true),
-        onEnd: () => setIsSpeaking(false),
+      // Saved narrations replay their cached audio instead of calling TTS again
+      const saved = findSavedContentByText(sight.id, text);
+      const audioKey = await speakNatural(text, {
+        title: sight.name,
+        artwork: sight.imageUrl,
+        sightId: sight.id,
+        audioKey: saved?.audioKey,
       });
+      if (saved && audioKey && saved.audioKey !== audioKey) {
+        linkSavedContentAudio(sight.id, saved.id, audioKey);
+      }
       
     } catch (e) {
       console.error("Error generating or speaking content:", e);
@@ -73,7 +191,6 @@ export default function SightDetailScreen() {
 
   const stopSpeech = () => {
     stopNatural();
-    setIsSpeaking(false);
   };
 
   const handlePlayPress = () => {
@@ -92,7 +209,14 @@ export default function SightDetailScreen() {
     startSpeech();
   };
 
+  // Favorites, links and tour stops don't carry a distance from the last map search
+  const distance = userLocation
+    ? parseFloat(calculateDistance(userLocation.latitude, userLocation.longitude, sight.latitude, sight.longitude).toFixed(1))
+    : sight.distance;
+
   const displayContent = generatedContent || currentSavedContent?.content || (defaultLanguage === "EN" ? sight.briefDescription : sight.briefDescriptionDE);
+  // What the [n] markers in a generated narration refer to
+  const displaySources = (generatedContent ? findSavedContentByText(sight.id, generatedContent) : currentSavedContent)?.sources;
   
   const handleDeleteSavedContent = (contentId: string) => {
     Alert.alert(
@@ -122,7 +246,7 @@ export default function SightDetailScreen() {
   };
   
   const formatContentAttributes = (content: SavedContent) => {
-    return `${content.language} • ${content.length} • ${content.interests}`;
+    return `${content.language} • ${content.length} • ${content.interests} • ${personaLabel(content.persona)}`;
   };
 
   return (
@@ -131,20 +255,25 @@ export default function SightDetailScreen() {
         options={{
           title: sight.name,
           headerRight: () => (
-            <TouchableOpacity onPress={handleFavoritePress} style={styles.favoriteButton}>
-              {isFavorite ? (
-                <BookmarkCheck size={24} color={Colors.light.primary} />
-              ) : (
-                <Bookmark size={24} color={Colors.light.text} />
-              )}
-            </TouchableOpacity>
+            <View style={styles.headerActions}>
+              <TouchableOpacity onPress={handleSharePress} style={styles.favoriteButton}>
+                <Share2 size={22} color={Colors.light.text} />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleFavoritePress} style={styles.favoriteButton}>
+                {isFavorite ? (
+                  <BookmarkCheck size={24} color={Colors.light.primary} />
+                ) : (
+                  <Bookmark size={24} color={Colors.light.text} />
+                )}
+              </TouchableOpacity>
+            </View>
           ),
         }} 
       />
       
       <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
         <Image 
-          source={{ uri: sight.imageUrl }} 
+          source={{ uri: imageUri }} 
           style={styles.image}
           resizeMode="cover"
         />
@@ -156,7 +285,7 @@ export default function SightDetailScreen() {
           </View>
           
           <View style={styles.infoRow}>
-            <Text style={styles.distance}>{sight.distance} km away</Text>
+            {distance !== undefined && <Text style={styles.distance}>{distance} km away</Text>}
             {sight.yearBuilt && (
               <Text style={styles.year}>Built in {sight.yearBuilt}</Text>
             )}
@@ -168,6 +297,70 @@ export default function SightDetailScreen() {
           <Text style={styles.description}>
             {displayContent}
           </Text>
+
+          {displaySources && displaySources.length > 0 && (
+            <View style={styles.sourcesSection}>
+              <Text style={styles.sourcesTitle}>Sources</Text>
+              {displaySources.map((source) =>
+                source.url ? (
+                  <TouchableOpacity key={source.id} onPress={() => Linking.openURL(source.url!)}>
+                    <Text style={[styles.sourceText, styles.detailLink]}>[{source.id}] {source.title}</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <Text key={source.id} style={styles.sourceText}>[{source.id}] {source.title}</Text>
+                )
+              )}
+            </View>
+          )}
+
+          {isEnriching && (
+            <View style={styles.enrichingRow}>
+              <ActivityIndicator size="small" color={Colors.light.inactive} />
+              <Text style={styles.enrichingText}>Loading more details...</Text>
+            </View>
+          )}
+
+          {(sight.architect || sight.heritageStatus || sight.openingHours || sight.website || sight.phoneNumber) && (
+            <View style={styles.detailsSection}>
+              {sight.architect && (
+                <View style={styles.detailRow}>
+                  <Landmark size={16} color={Colors.light.primary} />
+                  <Text style={styles.detailText}>Architect: {sight.architect}</Text>
+                </View>
+              )}
+              {sight.heritageStatus && (
+                <View style={styles.detailRow}>
+                  <Award size={16} color={Colors.light.primary} />
+                  <Text style={styles.detailText}>{sight.heritageStatus}</Text>
+                </View>
+              )}
+              {sight.openingHours && (
+                <View style={styles.detailRow}>
+                  <Clock size={16} color={Colors.light.primary} />
+                  <View style={styles.detailColumn}>
+                    {describeOpeningHours(sight.openingHours).map((line) => (
+                      <Text key={line} style={styles.detailText}>{line}</Text>
+                    ))}
+                  </View>
+                </View>
+              )}
+              {sight.website && (
+                <TouchableOpacity style={styles.detailRow} onPress={() => Linking.openURL(sight.website!)}>
+                  <Globe size={16} color={Colors.light.primary} />
+                  <Text style={[styles.detailText, styles.detailLink]} numberOfLines={1}>{sight.website}</Text>
+                </TouchableOpacity>
+              )}
+              {sight.phoneNumber && (
+                <TouchableOpacity
+                  style={styles.detailRow}
+                  onPress={() => Linking.openURL(`tel:${sight.phoneNumber!.replace(/\s/g, "")}`)}
+                >
+                  <Phone size={16} color={Colors.light.primary} />
+                  <Text style={[styles.detailText, styles.detailLink]}>{sight.phoneNumber}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
           
           {/* Current content info */}
           {currentSavedContent && (
@@ -195,10 +388,10 @@ export default function SightDetailScreen() {
             </TouchableOpacity>
           )}
           
-          {!openAiApiKey && (
+          {!hasLlm && (
             <View style={styles.warningContainer}>
               <Text style={styles.warningText}>
-                💡 Add your OpenAI API key in Settings to get AI-generated personalized descriptions
+                💡 Add your OpenAI API key or an AI server in Settings to get AI-generated personalized descriptions
               </Text>
             </View>
           )}
@@ -223,6 +416,8 @@ export default function SightDetailScreen() {
           </TouchableOpacity>
         </View>
       </ScrollView>
+
+      <NowPlayingBar />
       
       <Modal
         animationType="slide"
@@ -299,7 +494,7 @@ export default function SightDetailScreen() {
               </Text>
             </View>
             
-            {openAiApiKey && (
+            {hasLlm && (
               <View style={styles.aiNotice}>
                 <Text style={styles.aiNoticeText}>
                   ✨ AI will generate personalized content based on your interests
@@ -372,6 +567,10 @@ export default function SightDetailScreen() {
                         <Calendar size={12} color={Colors.light.primary} />
                         <Text style={styles.tagText}>{item.interests}</Text>
                       </View>
+                      <View style={styles.tag}>
+                        <Mic size={12} color={Colors.light.primary} />
+                        <Text style={styles.tagText}>{personaLabel(item.persona)}</Text>
+                      </View>
                     </View>
                   </TouchableOpacity>
                   
@@ -423,6 +622,23 @@ const styles = StyleSheet.create({
     color: Colors.light.error,
     textAlign: "center",
   },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: Colors.light.inactive,
+  },
+  retryButton: {
+    marginTop: 16,
+    backgroundColor: Colors.light.primary,
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+  },
+  retryButtonText: {
+    fontSize: 16,
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
   image: {
     width: "100%",
     height: 250,
@@ -466,6 +682,54 @@ const styles = StyleSheet.create({
     color: Colors.light.text,
     marginBottom: 16,
   },
+  sourcesSection: {
+    marginTop: -8,
+    marginBottom: 16,
+    gap: 4,
+  },
+  sourcesTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.light.inactive,
+  },
+  sourceText: {
+    fontSize: 13,
+    color: Colors.light.inactive,
+  },
+  enrichingRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 16,
+  },
+  enrichingText: {
+    fontSize: 13,
+    color: Colors.light.inactive,
+  },
+  detailsSection: {
+    backgroundColor: Colors.light.card,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+    gap: 10,
+  },
+  detailRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 8,
+  },
+  detailColumn: {
+    flex: 1,
+    gap: 2,
+  },
+  detailText: {
+    flexShrink: 1,
+    fontSize: 14,
+    color: Colors.light.text,
+  },
+  detailLink: {
+    color: Colors.light.primary,
+  },
   warningContainer: {
     backgroundColor: "#FFF3CD",
     borderRadius: 8,
@@ -500,6 +764,10 @@ const styles = StyleSheet.create({
   favoriteButton: {
     padding: 8,
   },
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
   modalOverlay: {
     flex: 1,
     justifyContent: "flex-end",
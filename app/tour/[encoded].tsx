@@ -0,0 +1,193 @@
+import { useMemo } from "react";
+import { StyleSheet, View, Text, ScrollView, TouchableOpacity, Alert } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Route, Download, Play } from "lucide-react-native";
+
+import { useTourStore, getTourDays } from "@/stores/tour-store";
+import { decodeTour } from "@/utils/tour-link";
+import Colors from "@/constants/colors";
+
+// Opened from a shared tour link: preview the tour, then keep it in the saved tours
+export default function SharedTourScreen() {
+  const { encoded } = useLocalSearchParams();
+  const router = useRouter();
+  const { savedTours, importTour, loadTour } = useTourStore();
+
+  const encodedTour = Array.isArray(encoded) ? encoded[0] : encoded;
+  const decoded = useMemo(() => {
+    try {
+      return { tour: decodeTour(encodedTour ?? ""), error: null };
+    } catch (error) {
+      return { tour: null, error: error instanceof Error ? error.message : "This tour link can't be opened." };
+    }
+  }, [encodedTour]);
+
+  if (!decoded.tour) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>{decoded.error}</Text>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => router.replace("/(tabs)/tour")}>
+          <Text style={styles.secondaryButtonText}>Go to Tours</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const tour = decoded.tour;
+  const days = getTourDays(tour);
+  const alreadySaved = savedTours.some(t => t.id === tour.id);
+
+  const handleSave = () => {
+    importTour(tour);
+    Alert.alert("Tour Saved", `"${tour.name}" is now in your saved tours.`);
+  };
+
+  const handleOpen = () => {
+    importTour(tour);
+    loadTour(tour.id);
+    router.replace("/(tabs)/tour");
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <Route size={28} color={Colors.light.primary} />
+        <Text style={styles.title}>{tour.name}</Text>
+        <Text style={styles.subtitle}>
+          {tour.sights.length} stops • {tour.totalDistance.toFixed(1)}km
+          {days.length > 1 ? ` • ${days.length} days` : ""}
+        </Text>
+      </View>
+
+      {days.map(day => (
+        <View key={day.day} style={styles.daySection}>
+          {days.length > 1 && <Text style={styles.dayTitle}>Day {day.day}</Text>}
+          {day.sights.map(stop => (
+            <View key={stop.order} style={styles.stopRow}>
+              <View style={styles.orderBadge}>
+                <Text style={styles.orderText}>{stop.order}</Text>
+              </View>
+              <Text style={styles.stopName} numberOfLines={1}>{stop.name}</Text>
+            </View>
+          ))}
+        </View>
+      ))}
+
+      <TouchableOpacity style={styles.primaryButton} onPress={handleOpen}>
+        <Play size={18} color="#FFFFFF" />
+        <Text style={styles.primaryButtonText}>Open Tour</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.secondaryButton} onPress={handleSave}>
+        <Download size={18} color={Colors.light.primary} />
+        <Text style={styles.secondaryButtonText}>{alreadySaved ? "Update Saved Copy" : "Save to My Tours"}</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.light.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+    backgroundColor: Colors.light.background,
+  },
+  errorText: {
+    fontSize: 16,
+    color: Colors.light.error,
+    textAlign: "center",
+    marginBottom: 16,
+  },
+  header: {
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "bold",
+    color: Colors.light.text,
+    textAlign: "center",
+  },
+  subtitle: {
+    fontSize: 14,
+    color: Colors.light.inactive,
+  },
+  daySection: {
+    backgroundColor: Colors.light.card,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 8,
+  },
+  dayTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.light.text,
+    marginBottom: 4,
+  },
+  stopRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  orderBadge: {
+    backgroundColor: Colors.light.primary,
+    borderRadius: 12,
+    width: 24,
+    height: 24,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  orderText: {
+    color: "#FFFFFF",
+    fontSize: 12,
+    fontWeight: "bold",
+  },
+  stopName: {
+    flex: 1,
+    fontSize: 15,
+    color: Colors.light.text,
+  },
+  primaryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: Colors.light.primary,
+    borderRadius: 8,
+    paddingVertical: 14,
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    borderWidth: 1,
+    borderColor: Colors.light.primary,
+    borderRadius: 8,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    color: Colors.light.primary,
+    fontWeight: "600",
+  },
+});
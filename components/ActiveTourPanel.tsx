@@ -0,0 +1,141 @@
+import { StyleSheet, View, Text, TouchableOpacity, ActivityIndicator } from "react-native";
+import { Navigation, SkipForward, Square, Volume2, CheckCircle } from "lucide-react-native";
+
+import Colors from "@/constants/colors";
+import { TourDay } from "@/stores/tour-store";
+import { useActiveTourStore } from "@/stores/active-tour-store";
+
+interface ActiveTourPanelProps {
+  day: TourDay;
+}
+
+export function ActiveTourPanel({ day }: ActiveTourPanelProps) {
+  const { isActive, isFinished, stopIndex, atStop, isNarrating, distanceToStop, etaMinutes, stopTour, skipStop } =
+    useActiveTourStore();
+
+  if (isFinished) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.row}>
+          <CheckCircle size={20} color={Colors.light.success} />
+          <Text style={styles.title}>Day {day.day} complete!</Text>
+        </View>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => useActiveTourStore.setState({ isFinished: false })}>
+          <Text style={styles.secondaryButtonText}>Close</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (!isActive) return null;
+
+  const stop = day.sights[stopIndex];
+  if (!stop) return null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        {atStop ? (
+          <Volume2 size={20} color={Colors.light.primary} />
+        ) : (
+          <Navigation size={20} color={Colors.light.primary} />
+        )}
+        <View style={styles.info}>
+          <Text style={styles.label}>{atStop ? "You're at" : "Heading to"}</Text>
+          <Text style={styles.title} numberOfLines={1}>
+            {stop.order}. {stop.name}
+          </Text>
+        </View>
+        {isNarrating && <ActivityIndicator size="small" color={Colors.light.primary} />}
+      </View>
+
+      {!atStop && (
+        <Text style={styles.progressText}>
+          {distanceToStop === null
+            ? "Waiting for your location…"
+            : `${distanceToStop < 1 ? `${Math.round(distanceToStop * 1000)}m` : `${distanceToStop.toFixed(1)}km`} • ETA ${etaMinutes}min`}
+        </Text>
+      )}
+
+      <View style={styles.buttons}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={skipStop}>
+          <SkipForward size={16} color={Colors.light.text} />
+          <Text style={styles.secondaryButtonText}>{atStop ? "Next Stop" : "Skip"}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.stopButton} onPress={stopTour}>
+          <Square size={16} color={Colors.light.error} />
+          <Text style={styles.stopButtonText}>End Tour</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.light.card,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.light.border,
+    padding: 16,
+    gap: 10,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  info: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 12,
+    color: Colors.light.inactive,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.light.text,
+  },
+  progressText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: Colors.light.primary,
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  secondaryButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    borderRadius: 8,
+    paddingVertical: 10,
+    backgroundColor: Colors.light.background,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: Colors.light.text,
+  },
+  stopButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    borderWidth: 1,
+    borderColor: Colors.light.error,
+    borderRadius: 8,
+    paddingVertical: 10,
+  },
+  stopButtonText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: Colors.light.error,
+  },
+});
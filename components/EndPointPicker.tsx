@@ -0,0 +1,304 @@
+import { useMemo, useState } from "react";
+import { StyleSheet, View, Text, TouchableOpacity, FlatList, Modal } from "react-native";
+import MapView, { Marker, PROVIDER_GOOGLE, Region, LongPressEvent } from "react-native-maps";
+import { X, Hotel, MapPin, Landmark } from "lucide-react-native";
+
+import Colors from "@/constants/colors";
+import { Sight } from "@/types/sight";
+import { TourEndPoint, useSettingsStore } from "@/stores/settings-store";
+
+interface EndPointPickerProps {
+  visible: boolean;
+  sights: Sight[];
+  userLocation: { latitude: number; longitude: number };
+  onClose: () => void;
+  onSelect: (endPoint: TourEndPoint) => void;
+}
+
+type PickerTab = "sight" | "pin";
+
+export function EndPointPicker({ visible, sights, userLocation, onClose, onSelect }: EndPointPickerProps) {
+  const { hotelLocation, setHotelLocation } = useSettingsStore();
+  const [activeTab, setActiveTab] = useState<PickerTab>("sight");
+  const [pin, setPin] = useState<{ latitude: number; longitude: number } | null>(null);
+
+  const region: Region = useMemo(
+    () => ({
+      latitude: userLocation.latitude,
+      longitude: userLocation.longitude,
+      latitudeDelta: 0.06,
+      longitudeDelta: 0.06,
+    }),
+    [userLocation]
+  );
+
+  const sortedSights = useMemo(
+    () => [...sights].sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity)),
+    [sights]
+  );
+
+  const handleLongPress = (event: LongPressEvent) => {
+    setPin(event.nativeEvent.coordinate);
+  };
+
+  const selectPin = () => {
+    if (!pin) return;
+    onSelect({ kind: "pin", name: "Dropped pin", ...pin });
+  };
+
+  const savePinAsHotel = () => {
+    if (!pin) return;
+    setHotelLocation({ name: "My hotel", ...pin });
+    onSelect({ kind: "hotel", name: "My hotel", ...pin });
+  };
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Choose End Point</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <X size={24} color={Colors.light.text} />
+            </TouchableOpacity>
+          </View>
+
+          {hotelLocation && (
+            <TouchableOpacity
+              style={styles.hotelOption}
+              onPress={() => onSelect({ kind: "hotel", ...hotelLocation })}
+            >
+              <Hotel size={20} color={Colors.light.primary} />
+              <Text style={styles.hotelText}>{hotelLocation.name}</Text>
+            </TouchableOpacity>
+          )}
+
+          <View style={styles.tabs}>
+            <TouchableOpacity
+              style={[styles.tab, activeTab === "sight" && styles.activeTab]}
+              onPress={() => setActiveTab("sight")}
+            >
+              <Landmark size={16} color={activeTab === "sight" ? "#FFFFFF" : Colors.light.text} />
+              <Text style={[styles.tabText, activeTab === "sight" && styles.activeTabText]}>Sight</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.tab, activeTab === "pin" && styles.activeTab]}
+              onPress={() => setActiveTab("pin")}
+            >
+              <MapPin size={16} color={activeTab === "pin" ? "#FFFFFF" : Colors.light.text} />
+              <Text style={[styles.tabText, activeTab === "pin" && styles.activeTabText]}>Drop a Pin</Text>
+            </TouchableOpacity>
+          </View>
+
+          {activeTab === "sight" ? (
+            <FlatList
+              data={sortedSights}
+              keyExtractor={(item) => item.id.toString()}
+              style={styles.sightList}
+              renderItem={({ item }) => (
+                <TouchableOpacity
+                  style={styles.sightItem}
+                  onPress={() => onSelect({
+                    kind: "sight",
+                    name: item.name,
+                    latitude: item.latitude,
+                    longitude: item.longitude,
+                    sightId: item.id,
+                  })}
+                >
+                  <Text style={styles.sightName} numberOfLines={1}>{item.name}</Text>
+                  {item.distance !== undefined && (
+                    <Text style={styles.sightDistance}>{item.distance} km</Text>
+                  )}
+                </TouchableOpacity>
+              )}
+              ListEmptyComponent={
+                <Text style={styles.emptyText}>No sights loaded yet.</Text>
+              }
+            />
+          ) : (
+            <View>
+              <View style={styles.mapContainer}>
+                <MapView
+                  provider={PROVIDER_GOOGLE}
+                  style={StyleSheet.absoluteFill}
+                  initialRegion={region}
+                  onLongPress={handleLongPress}
+                  showsUserLocation
+                >
+                  {pin && <Marker coordinate={pin} />}
+                </MapView>
+              </View>
+              <Text style={styles.hintText}>
+                {pin ? "Long-press again to move the pin." : "Long-press on the map to drop a pin."}
+              </Text>
+              <View style={styles.pinButtons}>
+                <TouchableOpacity
+                  style={[styles.secondaryButton, !pin && styles.disabledButton]}
+                  onPress={savePinAsHotel}
+                  disabled={!pin}
+                >
+                  <Text style={styles.secondaryButtonText}>Save as Hotel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.primaryButton, !pin && styles.disabledButton]}
+                  onPress={selectPin}
+                  disabled={!pin}
+                >
+                  <Text style={styles.primaryButtonText}>Use Pin</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+  },
+  modalContent: {
+    backgroundColor: Colors.light.background,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 40,
+    maxHeight: "85%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: Colors.light.text,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  hotelOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: Colors.light.card,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  hotelText: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: Colors.light.text,
+  },
+  tabs: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 12,
+  },
+  tab: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    borderRadius: 8,
+    paddingVertical: 10,
+  },
+  activeTab: {
+    backgroundColor: Colors.light.primary,
+    borderColor: Colors.light.primary,
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: Colors.light.text,
+  },
+  activeTabText: {
+    color: "#FFFFFF",
+  },
+  sightList: {
+    maxHeight: 320,
+  },
+  sightItem: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.light.border,
+    gap: 12,
+  },
+  sightName: {
+    flex: 1,
+    fontSize: 15,
+    color: Colors.light.text,
+  },
+  sightDistance: {
+    fontSize: 13,
+    color: Colors.light.inactive,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.light.inactive,
+    textAlign: "center",
+    paddingVertical: 24,
+  },
+  mapContainer: {
+    height: 280,
+    borderRadius: 12,
+    overflow: "hidden",
+  },
+  hintText: {
+    fontSize: 13,
+    color: Colors.light.inactive,
+    textAlign: "center",
+    marginVertical: 8,
+  },
+  pinButtons: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  secondaryButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    color: Colors.light.text,
+    fontWeight: "500",
+  },
+  primaryButton: {
+    flex: 1,
+    backgroundColor: Colors.light.primary,
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
@@ -83,7 +83,7 @@ const refreshArea = async () => {
   try {
     setFetching(true);
     const R = Math.min(50, Math.max(1, kmRadiusFromRegion(region.latitudeDelta)));
-    await fetchNearbySights(region.latitude, region.longitude, R);
+    await fetchNearbySights(region.latitude, region.longitude, R, { force: true });
     // Only filter after we have fresh data
     filterByMapRegion(region);
     lastCommittedRegion.current = region;
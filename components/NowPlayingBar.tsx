@@ -0,0 +1,148 @@
+import { StyleSheet, View, Text, Image, TouchableOpacity, ActivityIndicator } from "react-native";
+import Slider from "@react-native-community/slider";
+import { Play, Pause, SkipForward, RotateCcw, X } from "lucide-react-native";
+
+import Colors from "@/constants/colors";
+import { usePlayerStore } from "@/stores/player-store";
+import { useOfflineImage } from "@/stores/offline-store";
+import { useActiveTourStore } from "@/stores/active-tour-store";
+import { togglePlayPause, skipToNext, seekTo, seekBy } from "@/utils/audio-player";
+import { stopNatural } from "@/utils/tts";
+
+function formatTime(millis: number): string {
+  const totalSeconds = Math.floor(millis / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+export function NowPlayingBar() {
+  const { nowPlaying, isPlaying, isBuffering, canSeek, positionMillis, durationMillis } = usePlayerStore();
+  const { isActive: isTourActive, atStop, skipStop } = useActiveTourStore();
+  const artwork = useOfflineImage(nowPlaying?.artwork ?? "");
+
+  if (!nowPlaying) return null;
+
+  // During a live tour, skipping the narration means moving on to the next stop
+  const handleSkip = () => {
+    if (isTourActive && atStop) skipStop();
+    else skipToNext();
+  };
+
+  return (
+    <View style={styles.container}>
+      {canSeek && durationMillis > 0 && (
+        <View style={styles.progressRow}>
+          <Text style={styles.timeText}>{formatTime(positionMillis)}</Text>
+          <Slider
+            style={styles.slider}
+            minimumValue={0}
+            maximumValue={durationMillis}
+            value={positionMillis}
+            onSlidingComplete={(value) => seekTo(value)}
+            minimumTrackTintColor={Colors.light.primary}
+            maximumTrackTintColor={Colors.light.border}
+            thumbTintColor={Colors.light.primary}
+          />
+          <Text style={styles.timeText}>{formatTime(durationMillis)}</Text>
+        </View>
+      )}
+
+      <View style={styles.row}>
+        {artwork ? (
+          <Image source={{ uri: artwork }} style={styles.artwork} />
+        ) : (
+          <View style={[styles.artwork, styles.artworkPlaceholder]} />
+        )}
+
+        <View style={styles.info}>
+          <Text style={styles.label}>Now playing</Text>
+          <Text style={styles.title} numberOfLines={1}>{nowPlaying.title}</Text>
+        </View>
+
+        {canSeek && (
+          <TouchableOpacity style={styles.controlButton} onPress={() => seekBy(-15000)}>
+            <RotateCcw size={20} color={Colors.light.text} />
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.playButton} onPress={togglePlayPause} disabled={isBuffering && !isPlaying}>
+          {isBuffering && !isPlaying ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : isPlaying ? (
+            <Pause size={20} color="#fff" />
+          ) : (
+            <Play size={20} color="#fff" />
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.controlButton} onPress={handleSkip}>
+          <SkipForward size={20} color={Colors.light.text} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.controlButton} onPress={stopNatural}>
+          <X size={20} color={Colors.light.inactive} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.light.card,
+    borderTopWidth: 1,
+    borderTopColor: Colors.light.border,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 4,
+  },
+  progressRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  slider: {
+    flex: 1,
+    height: 28,
+  },
+  timeText: {
+    fontSize: 11,
+    color: Colors.light.inactive,
+    minWidth: 32,
+    textAlign: "center",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  artwork: {
+    width: 40,
+    height: 40,
+    borderRadius: 6,
+  },
+  artworkPlaceholder: {
+    backgroundColor: Colors.light.border,
+  },
+  info: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 11,
+    color: Colors.light.inactive,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.light.text,
+  },
+  controlButton: {
+    padding: 6,
+  },
+  playButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: Colors.light.primary,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
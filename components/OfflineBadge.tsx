@@ -0,0 +1,57 @@
+import { StyleSheet, View, Text } from "react-native";
+import { CheckCircle, Download } from "lucide-react-native";
+
+import Colors from "@/constants/colors";
+import { useOfflineStore, isTourAvailableOffline, getDownloadProgress } from "@/stores/offline-store";
+
+interface OfflineBadgeProps {
+  tourId: string;
+}
+
+export function OfflineBadge({ tourId }: OfflineBadgeProps) {
+  const download = useOfflineStore((state) => state.downloads[tourId]);
+  if (!download) return null;
+
+  if (isTourAvailableOffline(download)) {
+    return (
+      <View style={[styles.badge, styles.availableBadge]}>
+        <CheckCircle size={12} color={Colors.light.success} />
+        <Text style={[styles.text, styles.availableText]}>Available offline</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.badge}>
+      <Download size={12} color={Colors.light.inactive} />
+      <Text style={styles.text}>
+        {download.status === "downloading" ? "Downloading" : "Offline download incomplete"} •{" "}
+        {Math.round(getDownloadProgress(download) * 100)}%
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    backgroundColor: Colors.light.border,
+  },
+  availableBadge: {
+    backgroundColor: "#F0FAE6",
+  },
+  text: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: Colors.light.inactive,
+  },
+  availableText: {
+    color: Colors.light.success,
+  },
+});
@@ -0,0 +1,134 @@
+import { StyleSheet, View, Text, TouchableOpacity, Alert } from "react-native";
+import { Download, Pause, Play, Trash2, CheckCircle } from "lucide-react-native";
+
+import Colors from "@/constants/colors";
+import { Tour, useTourStore } from "@/stores/tour-store";
+import { useOfflineStore, isTourAvailableOffline, getDownloadProgress } from "@/stores/offline-store";
+
+interface OfflineDownloadPanelProps {
+  tour: Tour;
+}
+
+export function OfflineDownloadPanel({ tour }: OfflineDownloadPanelProps) {
+  const download = useOfflineStore((state) => state.downloads[tour.id]);
+  const { downloadTour, pauseDownload, removeDownload } = useOfflineStore();
+  const { savedTours, saveTour } = useTourStore();
+
+  const handleDownload = () => {
+    // Offline tours are opened from the saved tours, so keep this one there
+    if (!savedTours.some((t) => t.id === tour.id)) saveTour(tour.name);
+    downloadTour(tour);
+  };
+
+  const handleRemove = () => {
+    Alert.alert(
+      "Remove Offline Data",
+      "Downloaded narrations, images and map tiles for this tour may be removed.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Remove", style: "destructive", onPress: () => removeDownload(tour.id) },
+      ]
+    );
+  };
+
+  if (!download) {
+    return (
+      <TouchableOpacity style={styles.downloadButton} onPress={handleDownload}>
+        <Download size={16} color={Colors.light.primary} />
+        <Text style={styles.downloadButtonText}>Download for offline use</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  if (isTourAvailableOffline(download)) {
+    return (
+      <View style={styles.row}>
+        <CheckCircle size={16} color={Colors.light.success} />
+        <Text style={[styles.statusText, styles.availableText]}>Available offline</Text>
+        <TouchableOpacity style={styles.iconButton} onPress={handleRemove}>
+          <Trash2 size={16} color={Colors.light.inactive} />
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const progress = getDownloadProgress(download);
+  const isDownloading = download.status === "downloading";
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Text style={styles.statusText}>
+          {isDownloading ? "Downloading for offline use…" : "Offline download incomplete"}{" "}
+          {download.completedSteps.length}/{download.totalSteps}
+        </Text>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => (isDownloading ? pauseDownload(tour.id) : handleDownload())}
+        >
+          {isDownloading ? (
+            <Pause size={16} color={Colors.light.primary} />
+          ) : (
+            <Play size={16} color={Colors.light.primary} />
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.iconButton} onPress={handleRemove}>
+          <Trash2 size={16} color={Colors.light.inactive} />
+        </TouchableOpacity>
+      </View>
+      <View style={styles.progressTrack}>
+        <View style={[styles.progressFill, { width: `${Math.round(progress * 100)}%` }]} />
+      </View>
+      {download.error && !isDownloading && <Text style={styles.errorText}>{download.error}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  downloadButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 6,
+    paddingVertical: 4,
+  },
+  downloadButtonText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: Colors.light.primary,
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.light.text,
+  },
+  availableText: {
+    fontWeight: "600",
+    color: Colors.light.success,
+  },
+  iconButton: {
+    padding: 4,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: Colors.light.border,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: Colors.light.primary,
+  },
+  errorText: {
+    fontSize: 12,
+    color: Colors.light.error,
+  },
+});
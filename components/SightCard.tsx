@@ -1,3 +1,4 @@
+import { ReactNode } from "react";
 import { StyleSheet, View, Text, Image, TouchableOpacity } from "react-native";
 import { MapPin, Star, Crown, Eye } from "lucide-react-native";
 
@@ -7,9 +8,10 @@ import { Sight, SightTier } from "@/types/sight";
 interface SightCardProps {
   sight: Sight;
   onPress: () => void;
+  children?: ReactNode;  // extra rows below the footer
 }
 
-export function SightCard({ sight, onPress }: SightCardProps) {
+export function SightCard({ sight, onPress, children }: SightCardProps) {
   return (
     <TouchableOpacity 
       style={styles.card}
@@ -28,8 +30,12 @@ export function SightCard({ sight, onPress }: SightCardProps) {
         
         <View style={styles.footer}>
           <View style={styles.distanceContainer}>
-            <MapPin size={14} color={Colors.light.primary} />
-            <Text style={styles.distance}>{sight.distance} km</Text>
+            {sight.distance !== undefined && (
+              <>
+                <MapPin size={14} color={Colors.light.primary} />
+                <Text style={styles.distance}>{sight.distance} km</Text>
+              </>
+            )}
           </View>
           
           <View style={styles.tierContainer}>
@@ -39,6 +45,7 @@ export function SightCard({ sight, onPress }: SightCardProps) {
             </Text>
           </View>
         </View>
+        {children}
       </View>
     </TouchableOpacity>
   );
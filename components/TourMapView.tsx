@@ -1,18 +1,50 @@
-import React, { useMemo } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { StyleSheet, View, Text, TouchableOpacity } from "react-native";
-import MapView, { Marker, PROVIDER_GOOGLE, Region/*, Polyline*/ } from "react-native-maps";
-import { Navigation } from "lucide-react-native";
+import MapView, { Marker, PROVIDER_GOOGLE, Region, Polyline, LatLng, LocalTile } from "react-native-maps";
+import { Navigation, Flag, Home, X } from "lucide-react-native";
 
 import Colors from "@/constants/colors";
-import { Tour } from "@/stores/tour-store";
+import { Tour, TourDay, getLegTransportMode } from "@/stores/tour-store";
+import { useOfflineStore, isTourAvailableOffline } from "@/stores/offline-store";
+import { RoutingMode } from "@/utils/routing";
+import { OFFLINE_TILE_PATH_TEMPLATE } from "@/utils/offline-tour";
 
 interface TourMapViewProps {
   tour: Tour;
+  day: TourDay;
   userLocation: { latitude: number; longitude: number };
   onSightPress: (sightId: number | string) => void;
 }
 
-export function TourMapView({ tour, userLocation, onSightPress }: TourMapViewProps) {
+interface MapLeg {
+  key: string;
+  from: string;
+  to: string;
+  coordinates: LatLng[];
+  distance: number;
+  walkingTime: number;
+  mode: RoutingMode;
+}
+
+const LEG_STYLES: Record<MapLeg["mode"], { color: string; dash?: number[] }> = {
+  walk: { color: Colors.light.primary },
+  taxi: { color: Colors.light.secondary },
+  public: { color: "#8E44AD", dash: [8, 6] },
+};
+
+const LEG_LABELS: Record<MapLeg["mode"], string> = {
+  walk: "walk",
+  taxi: "by taxi",
+  public: "by public transport",
+};
+
+const EDGE_PADDING = { top: 60, right: 40, bottom: 100, left: 40 };
+
+export function TourMapView({ tour, day, userLocation, onSightPress }: TourMapViewProps) {
+  const mapRef = useRef<MapView | null>(null);
+  const [selectedLeg, setSelectedLeg] = useState<MapLeg | null>(null);
+  const isOffline = useOfflineStore((state) => isTourAvailableOffline(state.downloads[tour.id]));
+
   const region: Region = useMemo(
     () => ({
       latitude: userLocation.latitude,
@@ -23,32 +55,154 @@ export function TourMapView({ tour, userLocation, onSightPress }: TourMapViewPro
     [userLocation]
   );
 
-  const coords = tour.sights.map((s) => ({ latitude: s.latitude, longitude: s.longitude }));
+  const start = tour.start;
+  const end = tour.end;
+  const isRoundTrip = !end || !start || (end.latitude === start.latitude && end.longitude === start.longitude);
+
+  const legs: MapLeg[] = useMemo(() => {
+    const tourMode = tour.transportMode ?? "walk";
+    const result: MapLeg[] = [];
+    const stops = day.sights;
+    if (stops.length === 0) return result;
+
+    if (start && day.startLeg) {
+      result.push({
+        key: "start",
+        from: start.name,
+        to: stops[0].name,
+        coordinates: day.startLeg.geometry ?? [start, stops[0]],
+        distance: day.startLeg.distance,
+        walkingTime: day.startLeg.walkingTime,
+        mode: day.startLeg.mode ?? getLegTransportMode(tourMode, day.startLeg.distance),
+      });
+    }
+
+    stops.slice(0, -1).forEach((stop, index) => {
+      const next = stops[index + 1];
+      const distance = stop.distanceToNext ?? 0;
+      result.push({
+        key: `${stop.id}-${next.id}`,
+        from: stop.name,
+        to: next.name,
+        coordinates: stop.routeToNext ?? [stop, next],
+        distance,
+        walkingTime: stop.walkingTimeToNext ?? 0,
+        mode: stop.modeToNext ?? getLegTransportMode(tourMode, distance),
+      });
+    });
+
+    if (end && day.endLeg) {
+      const last = stops[stops.length - 1];
+      result.push({
+        key: "end",
+        from: last.name,
+        to: end.name,
+        coordinates: day.endLeg.geometry ?? [last, end],
+        distance: day.endLeg.distance,
+        walkingTime: day.endLeg.walkingTime,
+        mode: day.endLeg.mode ?? getLegTransportMode(tourMode, day.endLeg.distance),
+      });
+    }
+
+    return result;
+  }, [tour, day, start, end]);
+
+  const boundsCoordinates: LatLng[] = useMemo(() => {
+    const points: LatLng[] = day.sights.map((s) => ({ latitude: s.latitude, longitude: s.longitude }));
+    if (start) points.push({ latitude: start.latitude, longitude: start.longitude });
+    if (end) points.push({ latitude: end.latitude, longitude: end.longitude });
+    return points;
+  }, [day, start, end]);
+
+  const fitToTour = () => {
+    if (boundsCoordinates.length === 0) return;
+    mapRef.current?.fitToCoordinates(boundsCoordinates, { edgePadding: EDGE_PADDING, animated: true });
+  };
+
+  // Re-fit whenever another day is shown
+  useEffect(() => {
+    setSelectedLeg(null);
+    fitToTour();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [boundsCoordinates]);
 
   return (
     <View style={styles.container}>
-      <MapView provider={PROVIDER_GOOGLE} style={StyleSheet.absoluteFill} initialRegion={region} showsUserLocation>
-        {/* {coords.length > 1 ? <Polyline coordinates={coords} strokeWidth={3} /> : null} */}
-        {tour.sights.map((s, idx) => (
+      <MapView
+        ref={mapRef}
+        provider={PROVIDER_GOOGLE}
+        style={StyleSheet.absoluteFill}
+        initialRegion={region}
+        onMapReady={fitToTour}
+        showsUserLocation
+      >
+        {/* Downloaded tiles keep the tour area readable without a connection */}
+        {isOffline && <LocalTile pathTemplate={OFFLINE_TILE_PATH_TEMPLATE} tileSize={256} />}
+
+        {legs.map((leg) => (
+          <Polyline
+            key={leg.key}
+            coordinates={leg.coordinates}
+            strokeColor={LEG_STYLES[leg.mode].color}
+            strokeWidth={selectedLeg?.key === leg.key ? 7 : 4}
+            lineDashPattern={LEG_STYLES[leg.mode].dash}
+            tappable
+            onPress={() => setSelectedLeg(leg)}
+          />
+        ))}
+
+        {start && (
+          <Marker coordinate={{ latitude: start.latitude, longitude: start.longitude }} title={start.name}>
+            <View style={[styles.endpointPin, styles.startPin]}>
+              <Home size={14} color="#fff" />
+            </View>
+          </Marker>
+        )}
+
+        {end && !isRoundTrip && (
+          <Marker coordinate={{ latitude: end.latitude, longitude: end.longitude }} title={end.name}>
+            <View style={[styles.endpointPin, styles.endPin]}>
+              <Flag size={14} color="#fff" />
+            </View>
+          </Marker>
+        )}
+
+        {day.sights.map((s) => (
           <Marker
             key={String(s.id)}
             coordinate={{ latitude: s.latitude, longitude: s.longitude }}
             onPress={() => onSightPress(s.id)}
-            title={`${idx + 1}. ${s.name}`}
+            title={`${s.order}. ${s.name}`}
             description={s.vicinity}
           >
             <View style={styles.stepPin}>
-              <Text style={styles.stepText}>{idx + 1}</Text>
+              <Text style={styles.stepText}>{s.order}</Text>
             </View>
           </Marker>
         ))}
       </MapView>
 
       <View pointerEvents="box-none" style={styles.overlay}>
-        <TouchableOpacity style={styles.legendButton}>
-          <Navigation size={16} color="#fff" />
-          <Text style={styles.legendText}>Your tour</Text>
-        </TouchableOpacity>
+        {selectedLeg ? (
+          <View style={styles.legCard}>
+            <View style={styles.legInfo}>
+              <Text style={styles.legTitle} numberOfLines={1}>
+                {selectedLeg.from} → {selectedLeg.to}
+              </Text>
+              <Text style={styles.legText}>
+                {selectedLeg.distance.toFixed(1)}km • {selectedLeg.walkingTime}min {LEG_LABELS[selectedLeg.mode]}
+              </Text>
+            </View>
+            <TouchableOpacity style={styles.legClose} onPress={() => setSelectedLeg(null)}>
+              <X size={16} color="#fff" />
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <TouchableOpacity style={styles.legendButton} onPress={fitToTour}>
+            <Navigation size={16} color="#fff" />
+            <Text style={styles.legendText}>Your tour</Text>
+          </TouchableOpacity>
+        )}
       </View>
     </View>
   );
@@ -67,6 +221,20 @@ const styles = StyleSheet.create({
     borderRadius: 12,
   },
   legendText: { color: "#fff", fontWeight: "600" },
+  legCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    alignSelf: "stretch",
+    backgroundColor: "rgba(0,0,0,0.7)",
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+  },
+  legInfo: { flex: 1 },
+  legTitle: { color: "#fff", fontWeight: "700", fontSize: 14 },
+  legText: { color: "#fff", fontSize: 13, marginTop: 2 },
+  legClose: { padding: 4 },
   stepPin: {
     minWidth: 28,
     height: 28,
@@ -79,4 +247,15 @@ const styles = StyleSheet.create({
     borderColor: "#fff",
   },
   stepText: { color: "#fff", fontWeight: "700", fontSize: 12 },
+  endpointPin: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 2,
+    borderColor: "#fff",
+  },
+  startPin: { backgroundColor: Colors.light.success },
+  endPin: { backgroundColor: Colors.light.error },
 });
@@ -1,9 +1,11 @@
 import { StyleSheet, View, Text, Image, TouchableOpacity } from "react-native";
-import { MapPin, ArrowDown, Star, Crown, Eye } from "lucide-react-native";
+import { MapPin, ArrowDown, Star, Crown, Eye, CheckCircle, Clock, AlertTriangle } from "lucide-react-native";
 
 import Colors from "@/constants/colors";
 import { TourStop } from "@/stores/tour-store";
+import { useOfflineImage } from "@/stores/offline-store";
 import { SightTier } from "@/types/sight";
+import { formatClockTime } from "@/utils/opening-hours";
 
 interface TourSightCardProps {
   sight: TourStop;
@@ -13,6 +15,8 @@ interface TourSightCardProps {
 }
 
 export function TourSightCard({ sight, index, isLast, onPress }: TourSightCardProps) {
+  const imageUri = useOfflineImage(sight.imageUrl);
+
   return (
     <View style={styles.container}>
       <TouchableOpacity 
@@ -25,7 +29,7 @@ export function TourSightCard({ sight, index, isLast, onPress }: TourSightCardPr
         </View>
         
         <Image 
-          source={{ uri: sight.imageUrl }} 
+          source={{ uri: imageUri }} 
           style={styles.image}
           resizeMode="cover"
         />
@@ -33,6 +37,9 @@ export function TourSightCard({ sight, index, isLast, onPress }: TourSightCardPr
         <View style={styles.content}>
           <Text style={styles.name} numberOfLines={1}>{sight.name}</Text>
           <Text style={styles.category}>{sight.category}</Text>
+          {sight.rationale && (
+            <Text style={styles.rationale} numberOfLines={2}>{sight.rationale}</Text>
+          )}
           
           <View style={styles.footer}>
             <View style={styles.distanceContainer}>
@@ -47,6 +54,34 @@ export function TourSightCard({ sight, index, isLast, onPress }: TourSightCardPr
               </Text>
             </View>
           </View>
+
+          {sight.plannedArrival && sight.plannedDeparture && !sight.arrivedAt && (
+            <View style={styles.visitContainer}>
+              <Clock size={12} color={Colors.light.text} />
+              <Text style={styles.scheduleText}>
+                Arrive {formatClockTime(sight.plannedArrival)} · Leave {formatClockTime(sight.plannedDeparture)}
+              </Text>
+            </View>
+          )}
+
+          {sight.openingStatus && sight.openingStatus !== "open" && !sight.arrivedAt && (
+            <View style={styles.visitContainer}>
+              <AlertTriangle size={12} color={Colors.light.error} />
+              <Text style={styles.closedText}>
+                {sight.openingStatus === "closed" ? "Closed on arrival" : "Closes before you leave"}
+              </Text>
+            </View>
+          )}
+
+          {sight.arrivedAt && (
+            <View style={styles.visitContainer}>
+              <CheckCircle size={12} color={Colors.light.success} />
+              <Text style={styles.visitText}>
+                Visited {formatClockTime(sight.arrivedAt)}
+                {sight.departedAt ? ` – ${formatClockTime(sight.departedAt)}` : ""}
+              </Text>
+            </View>
+          )}
         </View>
       </TouchableOpacity>
       
@@ -115,6 +150,12 @@ const styles = StyleSheet.create({
     color: Colors.light.inactive,
     marginBottom: 8,
   },
+  rationale: {
+    fontSize: 13,
+    fontStyle: "italic",
+    color: Colors.light.text,
+    marginBottom: 8,
+  },
   footer: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -153,6 +194,27 @@ const styles = StyleSheet.create({
     color: Colors.light.inactive,
     fontWeight: "500",
   },
+  visitContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 8,
+  },
+  visitText: {
+    fontSize: 12,
+    color: Colors.light.success,
+    fontWeight: "500",
+  },
+  scheduleText: {
+    fontSize: 12,
+    color: Colors.light.text,
+    fontWeight: "500",
+  },
+  closedText: {
+    fontSize: 12,
+    color: Colors.light.error,
+    fontWeight: "500",
+  },
   tierContainer: {
     flexDirection: "row",
     alignItems: "center",
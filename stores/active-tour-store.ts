@@ -0,0 +1,182 @@
+import { create } from "zustand";
+import * as Location from "expo-location";
+
+import { useTourStore, getTourDays, TourStop } from "./tour-store";
+import { useSightsStore } from "./sights-store";
+import { useSettingsStore } from "./settings-store";
+import { calculateDistance } from "@/utils/geo";
+import { getTransportTimeMultiplier } from "@/utils/routing";
+import { speakNatural, stopNatural } from "@/utils/tts";
+
+// Entering this radius around a stop counts as arriving; leaving the larger one as departing
+const ARRIVAL_RADIUS_KM = 0.04;
+const DEPARTURE_RADIUS_KM = 0.07;
+
+interface ActiveTourState {
+  isActive: boolean;
+  isFinished: boolean;
+  dayIndex: number;
+  stopIndex: number;                // index in the day's stops we are heading to (or standing at)
+  atStop: boolean;
+  isNarrating: boolean;
+  position: { latitude: number; longitude: number } | null;
+  distanceToStop: number | null;    // km
+  etaMinutes: number | null;
+  error: string | null;
+
+  startTour: (dayIndex: number) => Promise<void>;
+  stopTour: () => void;
+  skipStop: () => void;
+  updatePosition: (position: { latitude: number; longitude: number }) => void;
+}
+
+let subscription: Location.LocationSubscription | null = null;
+
+export const useActiveTourStore = create<ActiveTourState>()((set, get) => ({
+  isActive: false,
+  isFinished: false,
+  dayIndex: 0,
+  stopIndex: 0,
+  atStop: false,
+  isNarrating: false,
+  position: null,
+  distanceToStop: null,
+  etaMinutes: null,
+  error: null,
+
+  startTour: async (dayIndex) => {
+    get().stopTour();
+
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== "granted") {
+      set({ error: "Location permission is required to follow the tour." });
+      return;
+    }
+
+    set({
+      isActive: true,
+      isFinished: false,
+      dayIndex,
+      stopIndex: 0,
+      atStop: false,
+      isNarrating: false,
+      position: null,
+      distanceToStop: null,
+      etaMinutes: null,
+      error: null,
+    });
+
+    try {
+      subscription = await Location.watchPositionAsync(
+        { accuracy: Location.Accuracy.High, distanceInterval: 5, timeInterval: 3000 },
+        (location) => {
+          get().updatePosition({ latitude: location.coords.latitude, longitude: location.coords.longitude });
+        }
+      );
+    } catch (error) {
+      console.error("Error watching position:", error);
+      set({ isActive: false, error: "Could not track your location." });
+    }
+  },
+
+  stopTour: () => {
+    subscription?.remove();
+    subscription = null;
+    if (get().isNarrating) stopNatural();
+    set({ isActive: false, atStop: false, isNarrating: false, distanceToStop: null, etaMinutes: null });
+  },
+
+  // Leave the current stop (or give up on reaching it) and head to the next one
+  skipStop: () => {
+    const stop = getActiveStops()[get().stopIndex];
+    if (!stop) return;
+
+    if (get().atStop) {
+      useTourStore.getState().recordStopVisit(stop.id, { departedAt: new Date() });
+    }
+    if (get().isNarrating) stopNatural();
+    advance();
+  },
+
+  updatePosition: (position) => {
+    const { isActive, stopIndex, atStop } = get();
+    if (!isActive) return;
+
+    const stop = getActiveStops()[stopIndex];
+    if (!stop) return;
+
+    const distance = calculateDistance(position.latitude, position.longitude, stop.latitude, stop.longitude);
+    const transportMode = useTourStore.getState().currentTour?.transportMode ?? "walk";
+    set({
+      position,
+      distanceToStop: distance,
+      etaMinutes: Math.ceil(distance * getTransportTimeMultiplier(transportMode)),
+    });
+
+    if (!atStop && distance <= ARRIVAL_RADIUS_KM) {
+      set({ atStop: true });
+      useTourStore.getState().recordStopVisit(stop.id, { arrivedAt: new Date() });
+      narrate(stop);
+    } else if (atStop && distance > DEPARTURE_RADIUS_KM) {
+      useTourStore.getState().recordStopVisit(stop.id, { departedAt: new Date() });
+      advance();
+    }
+  },
+}));
+
+/* ------------------------------- Helpers ------------------------------- */
+
+function getActiveStops(): TourStop[] {
+  const tour = useTourStore.getState().currentTour;
+  if (!tour) return [];
+  return getTourDays(tour)[useActiveTourStore.getState().dayIndex]?.sights ?? [];
+}
+
+function advance() {
+  const { stopIndex } = useActiveTourStore.getState();
+  const nextIndex = stopIndex + 1;
+
+  if (nextIndex >= getActiveStops().length) {
+    useActiveTourStore.getState().stopTour();
+    useActiveTourStore.setState({ isFinished: true, stopIndex: nextIndex });
+    return;
+  }
+  useActiveTourStore.setState({ stopIndex: nextIndex, atStop: false, distanceToStop: null, etaMinutes: null });
+}
+
+// Counts narrations started, so one that finishes late can tell whether another took over
+let narrationRun = 0;
+
+async function narrate(stop: TourStop) {
+  const { language, audioLength } = useSettingsStore.getState();
+  const detailLevel = useTourStore.getState().currentTour?.detailLevel ?? audioLength;
+  const { dayIndex, stopIndex } = useActiveTourStore.getState();
+  const run = ++narrationRun;
+
+  useActiveTourStore.setState({ isNarrating: true });
+  try {
+    const text = await useSightsStore.getState().generateSightContent(stop, language, detailLevel);
+    // The walker may have moved on while the text was generated, possibly to the next stop
+    const current = useActiveTourStore.getState();
+    if (!current.atStop || current.dayIndex !== dayIndex || current.stopIndex !== stopIndex) {
+      if (run === narrationRun) useActiveTourStore.setState({ isNarrating: false });
+      return;
+    }
+    const saved = useSightsStore.getState().findSavedContentByText(stop.id, text);
+    const audioKey = await speakNatural(text, {
+      title: stop.name,
+      artwork: stop.imageUrl,
+      sightId: stop.id,
+      audioKey: saved?.audioKey,
+      onEnd: () => {
+        if (run === narrationRun) useActiveTourStore.setState({ isNarrating: false });
+      },
+    });
+    if (saved && audioKey && saved.audioKey !== audioKey) {
+      useSightsStore.getState().linkSavedContentAudio(stop.id, saved.id, audioKey);
+    }
+  } catch (error) {
+    console.error("Error narrating stop:", error);
+    if (run === narrationRun) useActiveTourStore.setState({ isNarrating: false });
+  }
+}
@@ -0,0 +1,50 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+export interface LlmUsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+interface LlmUsageState {
+  byProvider: Record<string, LlmUsageTotals>;   // provider name → totals since the last reset
+  since: number;
+  recordUsage: (provider: string, usage?: { promptTokens: number; completionTokens: number }) => void;
+  resetUsage: () => void;
+}
+
+// Token usage reported by the LLM providers (see utils/llm-client), shown in Settings
+export const useLlmUsageStore = create<LlmUsageState>()(
+  persist(
+    (set) => ({
+      byProvider: {},
+      since: Date.now(),
+
+      recordUsage: (provider, usage) => {
+        set((state) => {
+          const current = state.byProvider[provider] ?? { requests: 0, promptTokens: 0, completionTokens: 0 };
+          return {
+            byProvider: {
+              ...state.byProvider,
+              [provider]: {
+                requests: current.requests + 1,
+                promptTokens: current.promptTokens + (usage?.promptTokens ?? 0),
+                completionTokens: current.completionTokens + (usage?.completionTokens ?? 0),
+              },
+            },
+          };
+        });
+      },
+
+      resetUsage: () => {
+        set({ byProvider: {}, since: Date.now() });
+      },
+    }),
+    {
+      name: "llm-usage-storage",
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
@@ -0,0 +1,214 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { Tour, useTourStore } from "./tour-store";
+import { buildOfflineSteps, deleteOfflineImages, OfflineStep } from "@/utils/offline-tour";
+import { unpinCachedAudio } from "@/utils/audio-cache";
+
+export type OfflineDownloadStatus = "downloading" | "paused" | "interrupted" | "complete" | "error";
+
+export interface OfflineTourDownload {
+  tourId: string;
+  status: OfflineDownloadStatus;
+  completedSteps: string[];          // step ids, see utils/offline-tour
+  totalSteps: number;
+  failedSteps: number;
+  images: Record<string, string>;    // remote image URL → local file
+  error: string | null;
+  updatedAt: number;
+}
+
+interface OfflineState {
+  downloads: Record<string, OfflineTourDownload>;
+  downloadTour: (tour: Tour) => Promise<void>;
+  pauseDownload: (tourId: string) => void;
+  removeDownload: (tourId: string) => Promise<void>;
+  resumeInterruptedDownloads: () => Promise<void>;
+}
+
+// Parallel steps per download; narration steps call the LLM, so keep this small
+const CONCURRENCY = 3;
+
+// Downloads running in this session, and the ones asked to pause
+const running = new Set<string>();
+const pauseRequested = new Set<string>();
+
+export const useOfflineStore = create<OfflineState>()(
+  persist(
+    (set, get) => ({
+      downloads: {},
+
+      downloadTour: async (tour) => {
+        if (running.has(tour.id)) return;
+        running.add(tour.id);
+        pauseRequested.delete(tour.id);
+
+        const steps = buildOfflineSteps(tour);
+        const previous = get().downloads[tour.id];
+        const stepIds = new Set(steps.map((step) => step.id));
+        // Keep progress of steps that still belong to the tour; a re-planned tour may have changed
+        const completed = new Set((previous?.completedSteps ?? []).filter((id) => stepIds.has(id)));
+        const images = { ...(previous?.images ?? {}) };
+        let failedSteps = 0;
+
+        const update = (patch: Partial<OfflineTourDownload>) => {
+          set((state) => {
+            // Removed while steps were still in flight
+            if (!state.downloads[tour.id] && pauseRequested.has(tour.id)) return {};
+            const current: OfflineTourDownload = state.downloads[tour.id] ?? {
+              tourId: tour.id,
+              status: "downloading",
+              completedSteps: [],
+              totalSteps: steps.length,
+              failedSteps: 0,
+              images: {},
+              error: null,
+              updatedAt: 0,
+            };
+            return {
+              downloads: { ...state.downloads, [tour.id]: { ...current, ...patch, updatedAt: Date.now() } },
+            };
+          });
+        };
+
+        update({
+          status: "downloading",
+          completedSteps: [...completed],
+          totalSteps: steps.length,
+          failedSteps: 0,
+          images: { ...images },
+          error: null,
+        });
+
+        const pending = steps.filter((step) => !completed.has(step.id));
+        await runWithConcurrency(pending, CONCURRENCY, async (step: OfflineStep) => {
+          if (pauseRequested.has(tour.id)) return;
+          try {
+            const result = await step.run();
+            if (step.kind === "image" && step.url && result) images[step.url] = result;
+            completed.add(step.id);
+            update({ completedSteps: [...completed], images: { ...images } });
+          } catch (error) {
+            console.warn(`Offline step ${step.id} failed:`, error);
+            failedSteps++;
+            update({ failedSteps });
+          }
+        });
+
+        running.delete(tour.id);
+        if (!get().downloads[tour.id]) {
+          // Removed while steps were in flight: those finished after removeDownload cleaned up
+          pauseRequested.delete(tour.id);
+          const stillUsed = new Set(Object.values(get().downloads).flatMap((d) => Object.values(d.images)));
+          await deleteOfflineImages(Object.values(images).filter((uri) => !stillUsed.has(uri)));
+          await unpinCachedAudio(tour.id);
+          return;
+        }
+
+        if (pauseRequested.has(tour.id)) {
+          pauseRequested.delete(tour.id);
+          update({ status: "paused" });
+        } else if (completed.size === steps.length) {
+          update({ status: "complete", failedSteps: 0, error: null });
+        } else {
+          update({
+            status: "error",
+            error: `${steps.length - completed.size} item${steps.length - completed.size === 1 ? "" : "s"} could not be downloaded. Resume to retry.`,
+          });
+        }
+      },
+
+      pauseDownload: (tourId) => {
+        if (running.has(tourId)) pauseRequested.add(tourId);
+      },
+
+      removeDownload: async (tourId) => {
+        const download = get().downloads[tourId];
+        if (!download) return;
+        if (running.has(tourId)) pauseRequested.add(tourId);
+
+        const { [tourId]: _removed, ...rest } = get().downloads;
+        set({ downloads: rest });
+
+        // Images shared with another offline tour stay on disk
+        const stillUsed = new Set(Object.values(rest).flatMap((d) => Object.values(d.images)));
+        await deleteOfflineImages(Object.values(download.images).filter((uri) => !stillUsed.has(uri)));
+        await unpinCachedAudio(tourId);
+      },
+
+      // Continue downloads that were cut off when the app was closed
+      resumeInterruptedDownloads: async () => {
+        await Promise.all([waitForHydration(useOfflineStore.persist), waitForHydration(useTourStore.persist)]);
+
+        const { currentTour, savedTours } = useTourStore.getState();
+        const tours = [...savedTours, ...(currentTour ? [currentTour] : [])];
+
+        for (const download of Object.values(get().downloads)) {
+          if (download.status !== "interrupted") continue;
+          const tour = tours.find((t) => t.id === download.tourId);
+          if (tour) get().downloadTour(tour);
+        }
+      },
+    }),
+    {
+      name: "offline-storage",
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ downloads: state.downloads }),
+      onRehydrateStorage: () => (state) => {
+        if (!state) return;
+        // Nothing runs right after launch, so a download still marked as running was cut off
+        const downloads = Object.fromEntries(
+          Object.entries(state.downloads).map(([id, download]) => [
+            id,
+            download.status === "downloading" ? { ...download, status: "interrupted" as const } : download,
+          ])
+        );
+        useOfflineStore.setState({ downloads });
+      },
+    }
+  )
+);
+
+export function isTourAvailableOffline(download?: OfflineTourDownload): boolean {
+  return download?.status === "complete";
+}
+
+export function getDownloadProgress(download?: OfflineTourDownload): number {
+  if (!download || download.totalSteps === 0) return 0;
+  return download.completedSteps.length / download.totalSteps;
+}
+
+// Local copy of a downloaded image, or the original URL
+export function useOfflineImage(url: string): string {
+  return useOfflineStore((state) => {
+    for (const download of Object.values(state.downloads)) {
+      const local = download.images[url];
+      if (local) return local;
+    }
+    return url;
+  });
+}
+
+/* ------------------------------- Helpers ------------------------------- */
+
+async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>) {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await worker(item);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+function waitForHydration(api: { hasHydrated: () => boolean; onFinishHydration: (fn: () => void) => () => void }) {
+  if (api.hasHydrated()) return Promise.resolve();
+  return new Promise<void>((resolve) => {
+    const unsubscribe = api.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+}
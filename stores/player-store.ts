@@ -0,0 +1,49 @@
+import { create } from "zustand";
+
+export interface PlayerTrack {
+  id: string;
+  title: string;                   // sight name
+  artwork?: string;                // sight image
+  sightId?: number | string;
+  uri?: string;                    // audio file; tracks without one are read by the system TTS
+  text: string;
+  language: "EN" | "DE";
+  pitch?: number;                  // system TTS only
+  onStart?: () => void;
+  onEnd?: () => void;              // finished, skipped or stopped
+}
+
+export interface NowPlaying {
+  title: string;
+  artwork?: string;
+  sightId?: number | string;
+}
+
+// Playback is driven by utils/audio-player; this store only mirrors its state so that
+// screens, the mini player and lock-screen integrations can subscribe to it.
+interface PlayerState {
+  queue: PlayerTrack[];
+  currentIndex: number;            // -1 when nothing is loaded
+  nowPlaying: NowPlaying | null;
+  isPlaying: boolean;
+  isBuffering: boolean;
+  canSeek: boolean;                // false for system TTS tracks
+  positionMillis: number;
+  durationMillis: number;
+}
+
+export const usePlayerStore = create<PlayerState>()(() => ({
+  queue: [],
+  currentIndex: -1,
+  nowPlaying: null,
+  isPlaying: false,
+  isBuffering: false,
+  canSeek: false,
+  positionMillis: 0,
+  durationMillis: 0,
+}));
+
+export function getCurrentTrack(): PlayerTrack | null {
+  const { queue, currentIndex } = usePlayerStore.getState();
+  return queue[currentIndex] ?? null;
+}
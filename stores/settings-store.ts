@@ -1,11 +1,30 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { SightTier } from "@/types/sight";
+import { SightTier, SightSource } from "@/types/sight";
 
 export type AudioLength = "brief" | "medium" | "expert";
 export type TransportMode = "walk" | "taxi" | "public" | "mix";
 export type TourType = "round-trip" | "point-to-point";
+export type RoutingProviderType = "haversine" | "google" | "osrm" | "valhalla";
+export type SightProviderType = SightSource;
+export type LlmProviderType = "openai" | "openai-compatible" | "rork" | "mock";
+export type VoiceStyle = "male" | "female" | "energetic" | "calm";
+export type TourEndPointKind = "sight" | "pin" | "hotel";
+
+export interface TourEndPoint {
+  kind: TourEndPointKind;
+  name: string;
+  latitude: number;
+  longitude: number;
+  sightId?: number | string;
+}
+
+export interface HotelLocation {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
 
 export interface TourWizardSettings {
   numberOfDays: number;
@@ -15,6 +34,14 @@ export interface TourWizardSettings {
   interestLevel: SightTier[];
   tourType: TourType;
   detailLevelPerSight: AudioLength;
+  endPoint?: TourEndPoint | null; // only used for point-to-point tours
+  startTime?: string;              // "HH:MM" each day starts at; the first day starts now when missing
+}
+
+// A narration persona's prompts, see utils/narration-personas
+export interface PersonaTemplate {
+  system: string;
+  prompt: string;
 }
 
 interface SettingsState {
@@ -25,7 +52,21 @@ interface SettingsState {
   specialInterests: string;
   selectedTiers: SightTier[];
   audioLength: AudioLength;
+  voiceStyle: VoiceStyle;
   tourWizardSettings: TourWizardSettings;
+  hotelLocation: HotelLocation | null;
+  routingProvider: RoutingProviderType;
+  routingServerUrl: string;             // OSRM / Valhalla base URL
+  mapTileUrl: string;                   // {z}/{x}/{y} template for offline map tiles; none downloaded when empty
+  sightProviders: SightProviderType[];  // enabled POI sources (see utils/sight-providers)
+  localSightsUrl: string;               // JSON / GeoJSON file or URL for the "local" provider
+  llmProvider: LlmProviderType;         // text generation, see utils/llm-client
+  llmServerUrl: string;                 // base URL of an OpenAI-compatible server, e.g. Ollama's /v1
+  llmServerApiKey: string;              // sent to that server when set
+  llmModel: string;                     // the provider's default model when empty
+  llmSpeechModel: string;               // TTS model on that server; its audio API is left alone when empty
+  narrationPersona: string;             // persona id, see utils/narration-personas
+  personaTemplates: Record<string, PersonaTemplate>; // edited templates by persona id
   setGoogleMapsApiKey: (key: string) => void;
   setOpenAiApiKey: (key: string) => void;
   setUserName: (name: string) => void;
@@ -34,8 +75,22 @@ interface SettingsState {
   setSelectedTiers: (tiers: SightTier[]) => void;
   toggleTier: (tier: SightTier) => void;
   setAudioLength: (length: AudioLength) => void;
+  setVoiceStyle: (style: VoiceStyle) => void;
   setTourWizardSettings: (settings: Partial<TourWizardSettings>) => void;
   resetTourWizardToDefaults: () => void;
+  setHotelLocation: (hotel: HotelLocation | null) => void;
+  setRoutingProvider: (provider: RoutingProviderType) => void;
+  setRoutingServerUrl: (url: string) => void;
+  setMapTileUrl: (url: string) => void;
+  setSightProviders: (providers: SightProviderType[]) => void;
+  setLocalSightsUrl: (url: string) => void;
+  setLlmProvider: (provider: LlmProviderType) => void;
+  setLlmServerUrl: (url: string) => void;
+  setLlmServerApiKey: (key: string) => void;
+  setLlmModel: (model: string) => void;
+  setLlmSpeechModel: (model: string) => void;
+  setNarrationPersona: (persona: string) => void;
+  setPersonaTemplates: (templates: Record<string, PersonaTemplate>) => void;
 }
 
 export const useSettingsStore = create<SettingsState>()(
@@ -48,6 +103,7 @@ export const useSettingsStore = create<SettingsState>()(
       specialInterests: "",
       selectedTiers: [1, 2, 3], // Show all tiers by default
       audioLength: "medium", // Default to 2 min
+      voiceStyle: "female",
       tourWizardSettings: {
         numberOfDays: 1,
         dailyDurationHours: 2,
@@ -57,6 +113,20 @@ export const useSettingsStore = create<SettingsState>()(
         tourType: "round-trip",
         detailLevelPerSight: "medium",
       },
+      hotelLocation: null,
+      routingProvider: "haversine",
+      routingServerUrl: "http://localhost:5000",
+      // No default: public servers such as OpenStreetMap's forbid bulk downloads
+      mapTileUrl: "",
+      sightProviders: ["google", "overpass", "wikipedia"],
+      localSightsUrl: "",
+      llmProvider: "openai",
+      llmServerUrl: "http://localhost:11434/v1",
+      llmServerApiKey: "",
+      llmModel: "",
+      llmSpeechModel: "",
+      narrationPersona: "guide",
+      personaTemplates: {},
       
       setGoogleMapsApiKey: (key) => {
         set({ googleMapsApiKey: key });
@@ -97,6 +167,10 @@ export const useSettingsStore = create<SettingsState>()(
         set({ audioLength: length });
       },
       
+      setVoiceStyle: (style) => {
+        set({ voiceStyle: style });
+      },
+      
       setTourWizardSettings: (settings) => {
         set((state) => ({
           tourWizardSettings: { ...state.tourWizardSettings, ...settings }
@@ -116,10 +190,71 @@ export const useSettingsStore = create<SettingsState>()(
           }
         });
       },
+      
+      setHotelLocation: (hotel) => {
+        set({ hotelLocation: hotel });
+      },
+      
+      setRoutingProvider: (provider) => {
+        set({ routingProvider: provider });
+      },
+      
+      setRoutingServerUrl: (url) => {
+        set({ routingServerUrl: url });
+      },
+      
+      setMapTileUrl: (url) => {
+        set({ mapTileUrl: url });
+      },
+
+      setSightProviders: (providers) => {
+        set({ sightProviders: providers });
+      },
+
+      setLocalSightsUrl: (url) => {
+        set({ localSightsUrl: url });
+      },
+
+      setLlmProvider: (provider) => {
+        set({ llmProvider: provider });
+      },
+
+      setLlmServerUrl: (url) => {
+        set({ llmServerUrl: url });
+      },
+
+      setLlmServerApiKey: (key) => {
+        set({ llmServerApiKey: key });
+      },
+
+      setLlmModel: (model) => {
+        set({ llmModel: model });
+      },
+
+      setLlmSpeechModel: (model) => {
+        set({ llmSpeechModel: model });
+      },
+
+      setNarrationPersona: (persona) => {
+        set({ narrationPersona: persona });
+      },
+
+      setPersonaTemplates: (templates) => {
+        set({ personaTemplates: templates });
+      },
     }),
     {
       name: "settings-storage",
       storage: createJSONStorage(() => AsyncStorage),
+      version: 1,
+      // Version 0 defaulted to OpenStreetMap's tile server, which forbids offline prefetching
+      migrate: (persisted, version) => {
+        const state = persisted as Partial<SettingsState>;
+        if (version < 1 && state.mapTileUrl === "https://tile.openstreetmap.org/{z}/{x}/{y}.png") {
+          return { ...state, mapTileUrl: "" } as SettingsState;
+        }
+        return state as SettingsState;
+      },
     }
   )
 );
\ No newline at end of file
@@ -2,16 +2,33 @@ import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import type { Region } from "react-native-maps";
-import { Sight, SightTier, SavedContent } from "@/types/sight";
+import { Sight, SightTier, SavedContent, FavoriteSight, NarrationSource } from "@/types/sight";
 import { useSettingsStore } from "./settings-store";
+import { removeCachedAudio } from "@/utils/audio-cache";
+import {
+  SightTile,
+  getTileHashes,
+  getCachedSights,
+  findStaleTiles,
+  mergeFetchedSights,
+  withDistanceFrom,
+} from "@/utils/sight-repository";
+import { searchSights, determineSightTier } from "@/utils/sight-providers";
+import { fetchSightEnrichment, needsEnrichment } from "@/utils/sight-enrichment";
+import { SIGHTS_STORAGE_VERSION, migrateSightsState, parseSightsState } from "@/utils/persisted-schema";
+import { LlmRequest, getLlmClient, streamCompletion } from "@/utils/llm-client";
+import { buildNarrationMessages, getNarrationPersona, narrationVariables } from "@/utils/narration-personas";
+import { gatherNarrationSources, groundNarrationMessages, toNarrationSources } from "@/utils/narration-sources";
 
 interface SightsState {
   sights: Sight[];                                 // currently visible list (map region + tier filtered)
   allSights: Sight[];                              // cache of everything we’ve fetched
-  favorites: string[];
+  favorites: FavoriteSight[];
   userLocation: { latitude: number; longitude: number } | null;
   radius: number;                                  // kept for backwards-compat; no longer used by UI
   loading: boolean;
+  refreshing: boolean;                             // background refresh of cached tiles
+  tiles: Record<string, SightTile>;                // geohash tile → cached sight ids
 
   // keep last map region so we can re-apply filters on tier toggle
   lastRegion: Region | null;
@@ -20,25 +37,40 @@ interface SightsState {
 
   setUserLocation: (location: { latitude: number; longitude: number }) => void;
   setRadius: (radius: number) => void;
-  fetchNearbySights: (latitude: number, longitude: number, radiusKm: number) => Promise<void>;
+  fetchNearbySights: (
+    latitude: number,
+    longitude: number,
+    radiusKm: number,
+    options?: { force?: boolean }
+  ) => Promise<void>;
   filterSightsByRadius: () => void;
   filterSightsByTiers: () => void;
   toggleFavorite: (sightId: number | string) => void;
-  generateSightContent: (sight: Sight, language: string, length: string) => Promise<string>;
+  updateFavorite: (sightId: number | string, changes: Pick<FavoriteSight, "folder" | "note">) => void;
+  // Streams the narration into `onText` as it is written when given
+  generateSightContent: (sight: Sight, language: string, length: string, onText?: (delta: string) => void) => Promise<string>;
   saveSightContent: (
     sightId: number | string,
     language: string,
     length: string,
     interests: string,
-    content: string
+    persona: string,
+    content: string,
+    sources?: NarrationSource[]
   ) => void;
   deleteSavedContent: (sightId: number | string, contentId: string) => void;
   getSavedContent: (
     sightId: number | string,
     language: string,
     length: string,
-    interests: string
+    interests: string,
+    persona: string
   ) => SavedContent | undefined;
+  findSavedContentByText: (sightId: number | string, content: string) => SavedContent | undefined;
+  linkSavedContentAudio: (sightId: number | string, contentId: string, audioKey: string) => void;
+  enrichSight: (sightId: number | string) => Promise<void>;
+  updateSightDetails: (sightId: number | string, details: Partial<Sight>) => void;
+  rememberSight: (sight: Sight) => void;
   determineSightTier: (rating?: number, userRatingsTotal?: number) => SightTier;
 }
 
@@ -51,6 +83,8 @@ export const useSightsStore = create<SightsState>()(
       userLocation: null,
       radius: 10,             // not shown in UI anymore; safe to keep
       loading: false,
+      refreshing: false,
+      tiles: {},
       lastRegion: null,
       setLastRegion: (r) => set({ lastRegion: r }),
 
@@ -62,114 +96,55 @@ export const useSightsStore = create<SightsState>()(
       },
 
       /* ---------------------------------- FETCH ---------------------------------- */
-      fetchNearbySights: async (latitude: number, longitude: number, radiusKm: number) => {
-        set({ loading: true });
-        try {
-          const { googleMapsApiKey, language } = useSettingsStore.getState();
-          if (!googleMapsApiKey) {
-            console.error("Google Maps API key is required. Please add it in Settings.");
-            set({ allSights: [], sights: [] });
-            return;
-          }
-
-          const radiusMeters = Math.max(100, Math.min(50000, Math.round(radiusKm * 1000)));
-
-          const baseUrl =
-            `https://maps.googleapis.com/maps/api/place/nearbysearch/json` +
-            `?location=${latitude},${longitude}` +
-            `&radius=${radiusMeters}` +
-            `&type=tourist_attraction` +
-            `&language=${language === "DE" ? "de" : "en"}` +
-            `&key=${googleMapsApiKey}`;
-
-          const call = async (url: string) => {
-            const res = await fetch(url);
-            if (!res.ok) throw new Error(`HTTP ${res.status}`);
-            return res.json();
-          };
-
-          // page up to 3 times (Google pagetoken warm-up needs delay)
-          const pages: any[] = [];
-          let url = baseUrl;
-          for (let i = 0; i < 3; i++) {
-            const data = await call(url);
-            if (data.status !== "OK" && data.status !== "ZERO_RESULTS") {
-              throw new Error(`Google Places API error: ${data.status} - ${data.error_message || "Unknown"}`);
+      // Serve what the tile cache knows about the area right away, then refresh stale tiles.
+      // With cached data the refresh runs in the background unless `force` is set.
+      fetchNearbySights: async (latitude: number, longitude: number, radiusKm: number, options) => {
+        const hashes = getTileHashes(latitude, longitude, radiusKm);
+        const hasCache = getCachedSights(get().tiles, get().allSights, hashes).length > 0;
+        if (hasCache) showSightsAround(latitude, longitude);
+
+        const stale = options?.force ? hashes : findStaleTiles(get().tiles, hashes, Date.now());
+        if (stale.length === 0) return;
+
+        const { language } = useSettingsStore.getState();
+
+        const refresh = async () => {
+          set(hasCache ? { refreshing: true } : { loading: true });
+          try {
+            const result = await searchSights({ latitude, longitude, radiusKm, language });
+            // Tiles beyond the radius the sources actually searched stay stale
+            const searched = new Set(getTileHashes(latitude, longitude, result.radiusKm));
+            const { tiles, allSights, canonicalIds } = mergeFetchedSights({
+              tiles: get().tiles,
+              allSights: get().allSights,
+              fetched: result.sights,
+              searchedHashes: hashes.filter((hash) => searched.has(hash)),
+              keepIds: new Set(get().favorites.map((f) => f.sightId)),
+              now: Date.now(),
+            });
+            // Favorites of a sight that turned out to be a duplicate follow it to the merged one
+            const favorites = new Map<string, FavoriteSight>();
+            for (const favorite of get().favorites) {
+              const sightId = canonicalIds.get(favorite.sightId) ?? favorite.sightId;
+              if (favorites.has(sightId)) continue;
+              const sight = allSights.find((s) => s.id.toString() === sightId);
+              favorites.set(sightId, { ...favorite, sightId, sight: sight ? favoriteSnapshot(sight) : favorite.sight });
             }
-            pages.push(...(data.results ?? []));
-            const next = data.next_page_token;
-            if (!next) break;
-            await new Promise((r) => setTimeout(r, 2000));
-            url = `${baseUrl}&pagetoken=${next}`;
+            set({ tiles, allSights, favorites: [...favorites.values()] });
+            showSightsAround(latitude, longitude);
+          } catch (error) {
+            // Keep whatever we already know about the area
+            console.error("Error fetching sights:", error);
+          } finally {
+            set({ loading: false, refreshing: false });
           }
+        };
 
-          // de-duplicate by place_id
-          const unique = new Map<string, any>();
-          for (const p of pages) {
-            const id = p.place_id ?? `${p.name}_${p.geometry?.location?.lat}_${p.geometry?.location?.lng}`;
-            if (!unique.has(id)) unique.set(id, p);
-          }
-          const results = Array.from(unique.values());
-
-          // map -> Sight
-          const sightsWithDistance: Sight[] = results.map((place: any, index: number) => {
-            const distance = calculateDistance(
-              latitude,
-              longitude,
-              place.geometry.location.lat,
-              place.geometry.location.lng
-            );
-            const tier = get().determineSightTier(place.rating, place.user_ratings_total);
-
-            const o: any = {
-              id: place.place_id || `place_${index}`,
-              name: place.name,
-              category: formatCategory(place.types?.[0]) || "Attraction",
-              latitude: place.geometry.location.lat,
-              longitude: place.geometry.location.lng,
-              distance: parseFloat(distance.toFixed(1)),
-              imageUrl: place.photos?.[0]
-                ? `https://maps.googleapis.com/maps/api/place/photo?maxwidth=400&photo_reference=${place.photos[0].photo_reference}&key=${googleMapsApiKey}`
-                : "https://images.unsplash.com/photo-1469474968028-56623f02e42e?q=80&w=2070&auto=format&fit=crop",
-              briefDescription: place.vicinity || "A notable attraction in the area",
-              fullDescription: place.vicinity || "A notable attraction in the area",
-              briefDescriptionDE: place.vicinity || "Eine bemerkenswerte Attraktion in der Gegend",
-              fullDescriptionDE: place.vicinity || "Eine bemerkenswerte Attraktion in der Gegend",
-              rating: place.rating,
-              placeId: place.place_id,
-              tier,
-              // extra fields used by relevance scoring (kept at runtime; TS reads via `as any`)
-              user_ratings_total: place.user_ratings_total,
-              open_now: place.opening_hours?.open_now ?? undefined,
-            };
-            return o as Sight;
-          });
-
-          sightsWithDistance.sort((a, b) => (a.distance || 0) - (b.distance || 0));
-
-          const capped = sightsWithDistance.slice(0, 200);
-          set({ allSights: capped, sights: capped });
-
-          // update cache; don’t filter by radius here – map region will do it
-          set({ allSights: capped });
-
-          // if we already have a region, apply it; else show everything we have
-          const { lastRegion } = get();
-          if (lastRegion) {
-            get().filterByMapRegion(lastRegion);
-          } else {
-            // still respect tier selections even before map reports its first region
-            const { selectedTiers } = useSettingsStore.getState();
-            set({
-              sights: capped.filter((s) => selectedTiers.includes(s.tier)),
-            });
-          }
-        } catch (error) {
-          console.error("Error fetching sights:", error);
-          set({ allSights: [], sights: [] });
-        } finally {
-          set({ loading: false });
+        if (hasCache && !options?.force) {
+          refresh();
+          return;
         }
+        await refresh();
       },
 
       /* ------------------------------ MAP REGION FILTER ----------------------------- */
@@ -216,75 +191,84 @@ export const useSightsStore = create<SightsState>()(
 
       /* --------------------------------- FAVORITES --------------------------------- */
       toggleFavorite: (sightId) => {
-        const { favorites } = get();
+        const { favorites, sights, allSights } = get();
+        const id = String(sightId);
+        if (favorites.some((f) => f.sightId === id)) {
+          set({ favorites: favorites.filter((f) => f.sightId !== id) });
+          return;
+        }
+
+        const sight = [...allSights, ...sights].find((s) => s.id.toString() === id);
+        if (!sight) return;
+        set({ favorites: [...favorites, { sightId: id, sight: favoriteSnapshot(sight), addedAt: Date.now() }] });
+      },
+
+      updateFavorite: (sightId, changes) => {
         const id = String(sightId);
         set({
-          favorites: favorites.includes(id)
-            ? favorites.filter((x) => x !== id)
-            : [...favorites, id],
+          favorites: get().favorites.map((f) =>
+            f.sightId === id ? { ...f, folder: changes.folder || undefined, note: changes.note || undefined } : f
+          ),
         });
       },
 
       /* ------------------------------ AI CONTENT (LLM) ------------------------------ */
-      generateSightContent: async (sight: Sight, language: string, length: string) => {
-        const { openAiApiKey, specialInterests, userName } = useSettingsStore.getState();
+      generateSightContent: async (sight: Sight, language: string, length: string, onText?: (delta: string) => void) => {
+        const { specialInterests, userName } = useSettingsStore.getState();
         const interests = specialInterests || "general";
+        const persona = getNarrationPersona();
 
-        const saved = get().getSavedContent(sight.id, language, length, interests);
-        if (saved) return saved.content;
+        const saved = get().getSavedContent(sight.id, language, length, interests, persona.key);
+        if (saved) {
+          onText?.(saved.content);
+          return saved.content;
+        }
 
-        if (!openAiApiKey) {
-          return language === "EN"
-            ? (length === "brief" ? sight.briefDescription : sight.fullDescription)
-            : (length === "brief" ? sight.briefDescriptionDE : sight.fullDescriptionDE);
+        const client = getLlmClient();
+        if (!client) {
+          const fallback = fallbackNarration(sight, language, length);
+          onText?.(fallback);
+          return fallback;
         }
 
+        let streamed = "";
         try {
-          const lengthText =
-            length === "brief" ? "1-minute" :
-            length === "medium" ? "2-minute" : "5-minute";
-
-          const resp = await fetch("https://api.openai.com/v1/chat/completions", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              "Authorization": `Bearer ${openAiApiKey}`,
-            },
-            body: JSON.stringify({
-              model: "gpt-4o-mini",
-              messages: [
-                { role: "system", content: "You are a knowledgeable, engaging tour guide." },
-                {
-                  role: "user",
-                  content:
-                    `Write a ${lengthText} spoken narration about "${sight.name}". ` +
-                    `Language: ${language === "DE" ? "German" : "English"}. ` +
-                    (specialInterests ? `Focus on: ${specialInterests}. ` : "") +
-                    (userName ? `Address the listener as ${userName}. ` : "") +
-                    `No fluff; make it vivid, accurate, and easy to listen to.`
-                }
-              ],
-            }),
-          });
-
-          const json = await resp.json();
-          const generatedContent: string =
-            json?.choices?.[0]?.message?.content?.trim() ||
-            (language === "EN"
-              ? (length === "brief" ? sight.briefDescription : sight.fullDescription)
-              : (length === "brief" ? sight.briefDescriptionDE : sight.fullDescriptionDE));
-
-          get().saveSightContent(sight.id, language, length, interests, generatedContent);
-          return generatedContent;
+          // Facts come from what we know about the sight, cited inline, not from the model's memory
+          const sources = await gatherNarrationSources(sight, language);
+          const request: LlmRequest = {
+            messages: groundNarrationMessages(
+              buildNarrationMessages(
+                persona.template,
+                narrationVariables(sight, { language, length, interests: specialInterests, userName })
+              ),
+              sources
+            ),
+          };
+          const completion = onText
+            ? await streamCompletion(client, request, (delta) => {
+                streamed += delta;
+                onText(delta);
+              })
+            : await client.complete(request);
+
+          if (!completion.text) {
+            const fallback = fallbackNarration(sight, language, length);
+            onText?.(fallback);
+            return fallback;
+          }
+          get().saveSightContent(sight.id, language, length, interests, persona.key, completion.text, toNarrationSources(sources));
+          return completion.text;
         } catch (err) {
           console.error("Error generating content:", err);
-          return language === "EN"
-            ? (length === "brief" ? sight.briefDescription : sight.fullDescription)
-            : (length === "brief" ? sight.briefDescriptionDE : sight.fullDescriptionDE);
+          // Part of a streamed narration has been shown and spoken already; keep it
+          if (streamed) return streamed.trim();
+          const fallback = fallbackNarration(sight, language, length);
+          onText?.(fallback);
+          return fallback;
         }
       },
 
-      saveSightContent: (sightId, language, length, interests, content) => {
+      saveSightContent: (sightId, language, length, interests, persona, content, sources) => {
         const { sights, allSights } = get();
 
         const newSavedContent: SavedContent = {
@@ -292,8 +276,10 @@ export const useSightsStore = create<SightsState>()(
           language,
           length,
           interests,
+          persona,
           content,
           createdAt: new Date(),
+          sources: sources?.length ? sources : undefined,
         };
 
         const updateSight = (s: Sight) =>
@@ -310,6 +296,11 @@ export const useSightsStore = create<SightsState>()(
       deleteSavedContent: (sightId, contentId) => {
         const { sights, allSights } = get();
 
+        const audioKey = allSights
+          .find((s) => s.id.toString() === sightId.toString())
+          ?.savedContent?.find((c) => c.id === contentId)?.audioKey;
+        if (audioKey) removeCachedAudio(audioKey);
+
         const updateSight = (s: Sight) =>
           s.id.toString() === sightId.toString()
             ? { ...s, savedContent: (s.savedContent || []).filter((c) => c.id !== contentId) }
@@ -321,29 +312,121 @@ export const useSightsStore = create<SightsState>()(
         });
       },
 
-      getSavedContent: (sightId, language, length, interests) => {
+      getSavedContent: (sightId, language, length, interests, persona) => {
         const { allSights } = get();
         const s = allSights.find((x) => x.id.toString() === sightId.toString());
         if (!s?.savedContent) return undefined;
         return s.savedContent.find(
-          (c) => c.language === language && c.length === length && c.interests === interests
+          (c) => c.language === language && c.length === length && c.interests === interests && c.persona === persona
         );
       },
 
+      findSavedContentByText: (sightId, content) => {
+        const { allSights } = get();
+        const s = allSights.find((x) => x.id.toString() === sightId.toString());
+        return s?.savedContent?.find((c) => c.content === content);
+      },
+
+      linkSavedContentAudio: (sightId, contentId, audioKey) => {
+        const { sights, allSights } = get();
+
+        const updateSight = (s: Sight) =>
+          s.id.toString() === sightId.toString()
+            ? {
+                ...s,
+                savedContent: (s.savedContent || []).map((c) => (c.id === contentId ? { ...c, audioKey } : c)),
+              }
+            : s;
+
+        set({
+          sights: sights.map(updateSight),
+          allSights: allSights.map(updateSight),
+        });
+      },
+
+      // Details looked up elsewhere (e.g. opening hours while planning a tour)
+      updateSightDetails: (sightId, details) => {
+        const { sights, allSights } = get();
+
+        const updateSight = (s: Sight) => (s.id.toString() === sightId.toString() ? { ...s, ...details } : s);
+
+        set({
+          sights: sights.map(updateSight),
+          allSights: allSights.map(updateSight),
+        });
+      },
+
+      // A sight looked up by id (e.g. from a link); it stays until a tile refresh evicts it
+      rememberSight: (sight) => {
+        const { allSights, favorites } = get();
+        const id = sight.id.toString();
+        if (allSights.some((s) => s.id.toString() === id)) return;
+        set({
+          allSights: [...allSights, sight],
+          // A favorite kept only by its id gets its snapshot back
+          favorites: favorites.map((f) => (f.sightId === id && !f.sight ? { ...f, sight: favoriteSnapshot(sight) } : f)),
+        });
+      },
+
+      /* -------------------------------- ENRICHMENT -------------------------------- */
+      // Wikipedia, Wikidata and Place Details, fetched once per sight and kept with it
+      enrichSight: async (sightId) => {
+        const id = sightId.toString();
+        const pending = enrichmentRequests.get(id);
+        if (pending) return pending;
+
+        const sight = [...get().allSights, ...get().sights].find((s) => s.id.toString() === id);
+        if (!sight || !needsEnrichment(sight)) return;
+
+        const request = (async () => {
+          try {
+            const { sourceIds, provenance, ...fields } = await fetchSightEnrichment(sight);
+            const found = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+
+            const updateSight = (s: Sight) =>
+              s.id.toString() === id
+                ? {
+                    ...s,
+                    ...found,
+                    sourceIds: { ...s.sourceIds, ...sourceIds },
+                    provenance: { ...s.provenance, ...provenance },
+                  }
+                : s;
+
+            const { sights, allSights } = get();
+            set({
+              sights: sights.map(updateSight),
+              allSights: allSights.map(updateSight),
+            });
+          } catch (error) {
+            console.error("Error enriching sight:", error);
+          } finally {
+            enrichmentRequests.delete(id);
+          }
+        })();
+        enrichmentRequests.set(id, request);
+        return request;
+      },
+
       /* ---------------------------------- TIERS ---------------------------------- */
       determineSightTier: (rating?: number, userRatingsTotal?: number): SightTier => {
-        if (!rating || !userRatingsTotal) return 2;
-        if (rating >= 4.3 && userRatingsTotal >= 500) return 1;
-        if (rating < 4.0 || userRatingsTotal < 50) return 3;
-        return 2;
+        return determineSightTier(rating, userRatingsTotal);
       },
     }),
     {
       name: "sights-storage",
       storage: createJSONStorage(() => AsyncStorage),
+      version: SIGHTS_STORAGE_VERSION,
+      migrate: migrateSightsState,
+      // Validates and revives Dates on every start, not only after a version change
+      merge: (persisted, current) => {
+        const { favorites, radius, tiles, allSights } = parseSightsState(persisted);
+        return { ...current, favorites, radius: radius ?? current.radius, tiles, allSights };
+      },
       partialize: (state) => ({
         favorites: state.favorites,
         radius: state.radius,
+        tiles: state.tiles,
         allSights: state.allSights.map((s) => ({
           ...s,
           savedContent: s.savedContent || [],
@@ -355,56 +438,32 @@ export const useSightsStore = create<SightsState>()(
 
 /* ------------------------------- Helpers ------------------------------- */
 
-function formatCategory(type: string): string {
-  if (!type) return "Attraction";
-  const categoryMap: { [key: string]: string } = {
-    tourist_attraction: "Tourist Attraction",
-    museum: "Museum",
-    church: "Religious Site",
-    park: "Park",
-    monument: "Monument",
-    castle: "Castle",
-    art_gallery: "Art Gallery",
-    zoo: "Zoo",
-    amusement_park: "Amusement Park",
-    aquarium: "Aquarium",
-    library: "Library",
-    university: "University",
-    stadium: "Stadium",
-    shopping_mall: "Shopping",
-    restaurant: "Restaurant",
-    cafe: "Cafe",
-    bar: "Bar",
-    night_club: "Nightlife",
-    movie_theater: "Entertainment",
-    bowling_alley: "Entertainment",
-    gym: "Sports & Fitness",
-    spa: "Wellness",
-    hospital: "Healthcare",
-    pharmacy: "Healthcare",
-    bank: "Services",
-    atm: "Services",
-    gas_station: "Services",
-    car_rental: "Transportation",
-    subway_station: "Transportation",
-    bus_station: "Transportation",
-    train_station: "Transportation",
-    airport: "Transportation",
-    lodging: "Accommodation",
-    campground: "Accommodation",
-    rv_park: "Accommodation",
-  };
-  return categoryMap[type] || type.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase());
+const enrichmentRequests = new Map<string, Promise<void>>();
+
+// The sight's own description, when no narration can be generated
+function fallbackNarration(sight: Sight, language: string, length: string): string {
+  return language === "EN"
+    ? (length === "brief" ? sight.briefDescription : sight.fullDescription)
+    : (length === "brief" ? sight.briefDescriptionDE : sight.fullDescriptionDE);
+}
+
+// Narrations stay in the sight cache; the favorite only needs what lists and maps show
+function favoriteSnapshot(sight: Sight): Sight {
+  const { savedContent, distance, ...snapshot } = sight;
+  return snapshot;
 }
 
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371;
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-    Math.sin(dLon / 2) ** 2;
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
+// Distances relative to the searched point, then the usual region + tier filter
+function showSightsAround(latitude: number, longitude: number) {
+  const store = useSightsStore.getState();
+  const allSights = withDistanceFrom(store.allSights, latitude, longitude);
+  useSightsStore.setState({ allSights });
+
+  if (store.lastRegion) {
+    store.filterByMapRegion(store.lastRegion);
+  } else {
+    // still respect tier selections even before map reports its first region
+    const { selectedTiers } = useSettingsStore.getState();
+    useSightsStore.setState({ sights: allSights.filter((s) => selectedTiers.includes(s.tier)) });
+  }
 }
@@ -1,19 +1,81 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { Sight } from "@/types/sight";
-import { useSettingsStore } from "./settings-store";
+import { Sight, OpeningHours } from "@/types/sight";
+import { useSettingsStore, TransportMode, AudioLength } from "./settings-store";
+import { useOfflineStore } from "./offline-store";
+import { useSightsStore } from "./sights-store";
+import { LatLng, calculateDistance } from "@/utils/geo";
+import { solveOrienteering } from "@/utils/tour-solver";
+import { RoutingMode, RoutingProvider, getRoutingProvider, getTransportTimeMultiplier } from "@/utils/routing";
+import { VisitStatus, isOpenBetween, planVisit } from "@/utils/opening-hours";
+import { fetchOpeningHours } from "@/utils/sight-enrichment";
+import { TOUR_STORAGE_VERSION, migrateTourState, parseTourState } from "@/utils/persisted-schema";
+import { LlmClient, LlmMessage, getLlmClient } from "@/utils/llm-client";
+import {
+  TourPlan,
+  TourPlanRequest,
+  MIN_PLANNED_STOPS,
+  TOUR_PLAN_SYSTEM_PROMPT,
+  buildTourPlanPrompt,
+  buildTourPlanRetryPrompt,
+  checkTourPlan,
+  parseTourPlan,
+  repairTourPlan,
+} from "@/utils/tour-plan";
+
+export interface TourPoint {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface TourLeg {
+  distance: number;     // in km
+  walkingTime: number;  // in minutes
+  mode?: RoutingMode;
+  geometry?: LatLng[];  // street path from the routing provider
+}
 
 export interface TourStop extends Sight {
   order: number;
   distanceToNext?: number;
   walkingTimeToNext?: number;
+  modeToNext?: RoutingMode;
+  routeToNext?: LatLng[];
+  arrivedAt?: Date;     // recorded while walking the tour
+  departedAt?: Date;
+  plannedArrival?: Date;
+  plannedDeparture?: Date;
+  openingStatus?: VisitStatus;  // at the planned time; missing when the hours are unknown
+  dwellMinutes?: number;        // suggested by the AI planner; the detail level's time otherwise
+  rationale?: string;           // why the AI planner picked this stop
+}
+
+// A sight on its way into a tour, with what the AI planner suggested for it
+type PlannedSight = Sight & Pick<TourStop, "dwellMinutes" | "rationale">;
+
+export interface TourDay {
+  day: number;
+  sights: TourStop[];
+  startLeg?: TourLeg;               // from the tour start to the first stop
+  endLeg?: TourLeg;                 // from the last stop to the tour end
+  totalDistance: number;
+  estimatedDuration: number; // in minutes
+  startsAt?: Date;
+  endsAt?: Date;
 }
 
 export interface Tour {
   id: string;
   name: string;
-  sights: TourStop[];
+  sights: TourStop[];               // all stops of all days, in visiting order
+  days?: TourDay[];                 // missing on tours saved before multi-day planning
+  start?: TourPoint;
+  end?: TourPoint;                  // same as start for round trips
+  transportMode?: TransportMode;
+  detailLevel?: AudioLength;
+  startsAt?: Date;
   totalDistance: number;
   estimatedDuration: number; // in minutes
   createdAt: Date;
@@ -29,9 +91,19 @@ interface TourState {
   clearTour: () => void;
   saveTour: (name: string) => void;
   loadTour: (tourId: string) => void;
+  importTour: (tour: Tour) => void;
   deleteTour: (tourId: string) => void;
+  recordStopVisit: (stopId: number | string, visit: Pick<TourStop, "arrivedAt" | "departedAt">) => void;
 }
 
+// Upper bound of stops we plan for a single day
+const MAX_STOPS_PER_DAY = 8;
+// Longest wait in front of a sight before it counts as closed on arrival
+const MAX_OPENING_WAIT_MINUTES = 45;
+const DEFAULT_DAY_START = "09:00";
+// Window for opening hours when the tour has no daily time budget
+const DEFAULT_DAY_MINUTES = 8 * 60;
+
 export const useTourStore = create<TourState>()(
   persist(
     (set, get) => ({
@@ -62,9 +134,14 @@ export const useTourStore = create<TourState>()(
             console.log(`Sights after tier filtering: ${filteredSights.length}`);
           }
           
-          // Filter sights within a reasonable radius (use full maxDistance as search radius)
+          const start: TourPoint = { name: "Start", latitude: userLocation.latitude, longitude: userLocation.longitude };
+          const end = resolveTourEnd(start, wizardSettings);
+          
+          // Filter sights within a reasonable radius (use full maxDistance as search radius);
+          // point-to-point tours may also pick up sights around the end point
           const nearSights = filteredSights.filter(sight => 
-            sight.distance !== undefined && sight.distance <= maxDistance
+            (sight.distance !== undefined && sight.distance <= maxDistance) ||
+            (end !== start && calculateDistance(end.latitude, end.longitude, sight.latitude, sight.longitude) <= maxDistance)
           );
           
           console.log(`Sights within ${maxDistance}km: ${nearSights.length}`);
@@ -81,58 +158,66 @@ export const useTourStore = create<TourState>()(
             
             // Use the closest sights if we had to expand the search
             const sortedSights = expandedSights.sort((a, b) => (a.distance || 0) - (b.distance || 0));
-            nearSights.push(...sortedSights.slice(0, Math.min(8, sortedSights.length)));
+            const maxStops = MAX_STOPS_PER_DAY * (wizardSettings?.numberOfDays ?? 1);
+            nearSights.push(...sortedSights.slice(0, Math.min(maxStops, sortedSights.length)));
+          }
+          
+          const transportMultiplier = wizardSettings ? getTransportTimeMultiplier(wizardSettings.transportMode) : 12;
+          const sightTimePerStop = wizardSettings ? getDetailLevelTime(wizardSettings.detailLevelPerSight) : 15;
+          const dailyMinutes = wizardSettings ? wizardSettings.dailyDurationHours * 60 : DEFAULT_DAY_MINUTES;
+          const numberOfDays = wizardSettings?.numberOfDays ?? 1;
+          let dayStarts = getDayStarts(new Date(), numberOfDays, wizardSettings?.startTime);
+          // Planned in the evening without a start time: nothing would be open, so start tomorrow morning
+          if (!wizardSettings?.startTime && isClosedForTheDay(nearSights, dayStarts[0], dailyMinutes)) {
+            dayStarts = getDayStarts(new Date(), numberOfDays, DEFAULT_DAY_START);
           }
           
-          // Use AI to optimize the tour if OpenAI key is available
-          const { openAiApiKey } = useSettingsStore.getState();
-          let optimizedRoute: Sight[];
+          // Let the language model plan the tour when one is configured
+          const llm = getLlmClient();
+          let dayRoutes: PlannedSight[][];
           
-          if (openAiApiKey && nearSights.length > 3) {
-            optimizedRoute = await optimizeTourWithAI(userLocation, nearSights, maxDistance, wizardSettings);
+          if (llm && nearSights.length > 3) {
+            dayRoutes = await planTourWithAI(llm, start, end, nearSights, maxDistance, wizardSettings, dayStarts, dailyMinutes);
           } else {
-            // Fallback to simple nearest neighbor algorithm
-            optimizedRoute = optimizeTourSimple(userLocation, nearSights, maxDistance, wizardSettings);
+            // Fallback to the local orienteering solver
+            dayRoutes = planDaysLocally(start, end, nearSights, maxDistance, wizardSettings, dayStarts, dailyMinutes);
           }
           
-          if (optimizedRoute.length === 0) {
+          // Visit sights while they are open: skip those closed all day, reorder the others
+          const openingHours = await loadOpeningHours(dayRoutes.flat());
+          const plannedDays = dayRoutes
+            .map((route, index) => ({
+              startsAt: dayStarts[index],
+              sights: arrangeForOpeningHours(
+                route.map(sight => ({ ...sight, openingHours: openingHours.get(sight.id.toString()) ?? sight.openingHours })),
+                start,
+                dayStarts[index],
+                dailyMinutes,
+                transportMultiplier,
+                sightTimePerStop
+              ),
+            }))
+            .filter(day => day.sights.length > 0);
+          
+          if (plannedDays.length === 0 && dayRoutes.some(route => route.length > 0)) {
+            throw new Error("All the sights for this tour are closed at the planned times. Try another start time or check their opening hours.");
+          }
+          if (plannedDays.length === 0) {
             throw new Error("Could not create a tour with the available sights. Try increasing the tour distance or search radius.");
           }
           
-          // Calculate distances and walking times between stops
-          const tourStops: TourStop[] = optimizedRoute.map((sight, index) => {
-            const nextSight = optimizedRoute[index + 1];
-            let distanceToNext = 0;
-            let walkingTimeToNext = 0;
-            
-            if (nextSight) {
-              distanceToNext = calculateDistance(
-                sight.latitude,
-                sight.longitude,
-                nextSight.latitude,
-                nextSight.longitude
-              );
-              
-              // Calculate time based on transport mode
-              const transportMultiplier = wizardSettings ? getTransportTimeMultiplier(wizardSettings.transportMode) : 12;
-              walkingTimeToNext = Math.ceil(distanceToNext * transportMultiplier);
-            }
-            
-            return {
-              ...sight,
-              order: index + 1,
-              distanceToNext,
-              walkingTimeToNext,
-            };
-          });
-          
-          // Calculate total tour statistics
-          const totalWalkingDistance = tourStops.reduce((sum, stop) => sum + (stop.distanceToNext || 0), 0);
-          const totalWalkingTime = tourStops.reduce((sum, stop) => sum + (stop.walkingTimeToNext || 0), 0);
+          // Legs are measured along actual streets when a routing provider is configured
+          const router = getRoutingProvider();
+          const tourMode = wizardSettings?.transportMode ?? "walk";
           
-          // Calculate sight time based on detail level
-          const sightTimePerStop = wizardSettings ? getDetailLevelTime(wizardSettings.detailLevelPerSight) : 15;
-          const totalSightTime = tourStops.length * sightTimePerStop;
+          let nextOrder = 1;
+          const days: TourDay[] = [];
+          for (const [index, plannedDay] of plannedDays.entries()) {
+            const day = await buildTourDay(index + 1, plannedDay.sights, start, end, nextOrder, router, tourMode, sightTimePerStop, plannedDay.startsAt);
+            nextOrder += day.sights.length;
+            days.push(day);
+          }
+          const tourStops = days.flatMap(day => day.sights);
           
           const tour: Tour = {
             id: Date.now().toString(),
@@ -140,12 +225,18 @@ export const useTourStore = create<TourState>()(
               `${wizardSettings.numberOfDays}-Day ${wizardSettings.transportMode.charAt(0).toUpperCase() + wizardSettings.transportMode.slice(1)} Tour` :
               `${tourStops.length}-Stop Tour`,
             sights: tourStops,
-            totalDistance: totalWalkingDistance,
-            estimatedDuration: totalWalkingTime + totalSightTime,
+            days,
+            start,
+            end,
+            transportMode: tourMode,
+            detailLevel: wizardSettings?.detailLevelPerSight,
+            startsAt: plannedDays[0].startsAt,
+            totalDistance: days.reduce((sum, day) => sum + day.totalDistance, 0),
+            estimatedDuration: days.reduce((sum, day) => sum + day.estimatedDuration, 0),
             createdAt: new Date(),
           };
           
-          console.log(`Generated tour: ${tour.sights.length} stops, ${tour.totalDistance.toFixed(1)}km total`);
+          console.log(`Generated tour: ${tour.sights.length} stops over ${days.length} day(s), ${tour.totalDistance.toFixed(1)}km total`);
           set({ currentTour: tour });
           
         } catch (error) {
@@ -191,218 +282,513 @@ export const useTourStore = create<TourState>()(
         }
       },
       
+      // A tour received as a link; importing the same link again replaces the earlier copy
+      importTour: (tour) => {
+        const { savedTours } = get();
+        set({ savedTours: [...savedTours.filter(t => t.id !== tour.id), tour] });
+        // Stops made from a link or file become known sights, so their narrations are kept
+        const { rememberSight } = useSightsStore.getState();
+        for (const stop of tour.sights) rememberSight(withoutTourPlan(stop));
+      },
+      
       deleteTour: (tourId: string) => {
         const { savedTours } = get();
         const updatedTours = savedTours.filter(tour => tour.id !== tourId);
         set({ savedTours: updatedTours });
+        useOfflineStore.getState().removeDownload(tourId);
+      },
+      
+      recordStopVisit: (stopId, visit) => {
+        const { currentTour, savedTours } = get();
+        if (!currentTour) return;
+        
+        const updateStop = (stop: TourStop) =>
+          stop.id.toString() === stopId.toString() ? { ...stop, ...visit } : stop;
+        
+        const updatedTour: Tour = {
+          ...currentTour,
+          sights: currentTour.sights.map(updateStop),
+          days: currentTour.days?.map(day => ({ ...day, sights: day.sights.map(updateStop) })),
+        };
+        
+        // Keep the saved copy in sync so visit times survive a restart
+        set({
+          currentTour: updatedTour,
+          savedTours: savedTours.map(tour => tour.id === updatedTour.id ? { ...updatedTour, name: tour.name } : tour),
+        });
       },
     }),
     {
       name: "tour-storage",
       storage: createJSONStorage(() => AsyncStorage),
+      version: TOUR_STORAGE_VERSION,
+      migrate: migrateTourState,
+      // Validates and revives Dates on every start, not only after a version change
+      merge: (persisted, current) => {
+        const { savedTours, tourDistance } = parseTourState(persisted);
+        return { ...current, savedTours, tourDistance: tourDistance ?? current.tourDistance };
+      },
       partialize: (state) => ({ savedTours: state.savedTours, tourDistance: state.tourDistance }),
     }
   )
 );
 
-// Simple nearest neighbor tour optimization
-function optimizeTourSimple(
-  userLocation: { latitude: number; longitude: number },
+// Solve one orienteering problem per day on the sights not yet used by earlier days.
+// The distance budget is shared evenly between the days.
+function planDaysLocally(
+  start: TourPoint,
+  end: TourPoint,
   sights: Sight[],
   maxDistance: number,
-  wizardSettings?: import('./settings-store').TourWizardSettings
-): Sight[] {
-  if (sights.length <= 1) return sights;
-  
-  const visited = new Set<number | string>();
-  const route: Sight[] = [];
-  let currentLocation = userLocation;
-  let totalDistance = 0;
-  
-  // Start with the closest sight to user
-  let closestSight = sights.reduce((closest, sight) => {
-    const distance = calculateDistance(
-      currentLocation.latitude,
-      currentLocation.longitude,
-      sight.latitude,
-      sight.longitude
-    );
-    const closestDistance = calculateDistance(
-      currentLocation.latitude,
-      currentLocation.longitude,
-      closest.latitude,
-      closest.longitude
-    );
-    return distance < closestDistance ? sight : closest;
-  });
+  wizardSettings?: import('./settings-store').TourWizardSettings,
+  dayStarts?: Date[],
+  dailyMinutes = DEFAULT_DAY_MINUTES
+): Sight[][] {
+  const numberOfDays = wizardSettings?.numberOfDays ?? 1;
+  const days: Sight[][] = [];
+  let remaining = sights;
   
-  route.push(closestSight);
-  visited.add(closestSight.id);
-  currentLocation = { latitude: closestSight.latitude, longitude: closestSight.longitude };
-  
-  // Add remaining sights using nearest neighbor, but respect distance limit
-  while (visited.size < sights.length && visited.size < 8) { // Limit to max 8 stops
-    const unvisited = sights.filter(sight => !visited.has(sight.id));
-    if (unvisited.length === 0) break;
+  for (let day = 0; day < numberOfDays && remaining.length > 0; day++) {
+    // Sights known to be closed all day are no candidates for it
+    const dayStart = dayStarts?.[day];
+    const candidates = dayStart ?
+      remaining.filter(sight => isOpenDuringDay(sight, dayStart, dailyMinutes)) :
+      remaining;
     
-    const nextSight = unvisited.reduce((closest, sight) => {
-      const distance = calculateDistance(
-        currentLocation.latitude,
-        currentLocation.longitude,
-        sight.latitude,
-        sight.longitude
-      );
-      const closestDistance = calculateDistance(
-        currentLocation.latitude,
-        currentLocation.longitude,
-        closest.latitude,
-        closest.longitude
-      );
-      return distance < closestDistance ? sight : closest;
+    const route = solveOrienteering({
+      start,
+      end,
+      candidates,
+      value: getSightValue,
+      maxDistanceKm: maxDistance / numberOfDays,
+      maxMinutes: wizardSettings ? wizardSettings.dailyDurationHours * 60 : undefined,
+      minutesPerKm: wizardSettings ? getTransportTimeMultiplier(wizardSettings.transportMode) : 12,
+      minutesPerStop: wizardSettings ? getDetailLevelTime(wizardSettings.detailLevelPerSight) : 15,
+      maxStops: MAX_STOPS_PER_DAY,
+      seed: day + 1,
     });
+    // Nothing fits at all, or only closed sights remain for this day (keep it so days stay aligned with their dates)
+    if (route.length === 0 && candidates.length === remaining.length) break;
     
-    const distanceToNext = calculateDistance(
-      currentLocation.latitude,
-      currentLocation.longitude,
-      nextSight.latitude,
-      nextSight.longitude
-    );
-    
-    // Check if adding this sight would exceed our distance limit (with some buffer for return)
-    const estimatedReturnDistance = calculateDistance(
-      nextSight.latitude,
-      nextSight.longitude,
-      userLocation.latitude,
-      userLocation.longitude
-    ) * 0.5; // Rough estimate for return path
-    
-    if (totalDistance + distanceToNext + estimatedReturnDistance > maxDistance * 0.9) {
-      break;
-    }
-    
-    route.push(nextSight);
-    visited.add(nextSight.id);
-    currentLocation = { latitude: nextSight.latitude, longitude: nextSight.longitude };
-    totalDistance += distanceToNext;
+    days.push(route);
+    const used = new Set(route.map(sight => sight.id));
+    remaining = remaining.filter(sight => !used.has(sight.id));
   }
   
-  return route;
+  return days;
+}
+
+// How much a visit is worth to the solver: tier dominates, rating fine-tunes
+function getSightValue(sight: Sight): number {
+  const tierWeight = sight.tier === 1 ? 3 : sight.tier === 2 ? 2 : 1;
+  const ratingFactor = sight.rating ? 0.5 + sight.rating / 10 : 0.8;
+  return tierWeight * ratingFactor;
 }
 
-// AI-powered tour optimization
-async function optimizeTourWithAI(
-  userLocation: { latitude: number; longitude: number },
+// A tour plan from the language model: candidate ids in, ordered ids with a rationale and a
+// dwell time per stop out. Answers that can't be parsed get one retry, plans that break the
+// budgets are repaired, and the local solver plans the tour when neither gives a usable plan.
+// The plan is split into days and each day held to the same budgets as the local solver's days.
+async function planTourWithAI(
+  llm: LlmClient,
+  start: TourPoint,
+  end: TourPoint,
   sights: Sight[],
   maxDistance: number,
-  wizardSettings?: import('./settings-store').TourWizardSettings
-): Promise<Sight[]> {
+  wizardSettings?: import('./settings-store').TourWizardSettings,
+  dayStarts?: Date[],
+  dailyMinutes = DEFAULT_DAY_MINUTES
+): Promise<PlannedSight[][]> {
+  const { specialInterests } = useSettingsStore.getState();
+  const numberOfDays = wizardSettings?.numberOfDays ?? 1;
+  const request: TourPlanRequest = {
+    start,
+    end,
+    candidates: sights,
+    value: getSightValue,
+    maxDistanceKm: maxDistance,
+    maxMinutes: numberOfDays * dailyMinutes,
+    minutesPerKm: wizardSettings ? getTransportTimeMultiplier(wizardSettings.transportMode) : 12,
+    defaultDwellMinutes: wizardSettings ? getDetailLevelTime(wizardSettings.detailLevelPerSight) : 15,
+    maxStops: MAX_STOPS_PER_DAY * numberOfDays,
+    numberOfDays,
+    transportMode: wizardSettings?.transportMode ?? "walk",
+    interests: specialInterests || undefined,
+  };
+  
   try {
-    const { specialInterests, userName } = useSettingsStore.getState();
-    
-    const sightDescriptions = sights.map(sight => 
-      `${sight.name} (${sight.category}) - ${sight.distance}km away`
-    ).join(", ");
-    
-    let prompt = `You are a tour planner. Given these sights: ${sightDescriptions}, and a maximum total distance of ${maxDistance}km, create an optimized tour route starting and ending near location (${userLocation.latitude}, ${userLocation.longitude}).`;
-    
-    // Add wizard settings context
-    if (wizardSettings) {
-      prompt += ` Tour requirements: ${wizardSettings.numberOfDays} day(s), ${wizardSettings.dailyDurationHours} hours per day, transport mode: ${wizardSettings.transportMode}, tour type: ${wizardSettings.tourType}.`;
+    const messages: LlmMessage[] = [
+      { role: "system", content: TOUR_PLAN_SYSTEM_PROMPT },
+      { role: "user", content: buildTourPlanPrompt(request) },
+    ];
+    let answer = (await llm.complete({ messages, json: true })).text;
+    let plan: TourPlan;
+    try {
+      plan = parseTourPlan(answer);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "The answer could not be read.";
+      console.warn("AI tour plan unreadable, asking again:", reason);
+      messages.push({ role: "assistant", content: answer }, { role: "user", content: buildTourPlanRetryPrompt(reason) });
+      answer = (await llm.complete({ messages, json: true })).text;
+      plan = parseTourPlan(answer);
     }
     
-    if (specialInterests) {
-      prompt += ` The user is particularly interested in: ${specialInterests}. Prioritize sights that match these interests.`;
+    const issues = checkTourPlan(plan, request);
+    if (issues.length > 0) {
+      console.warn("Repairing AI tour plan:", issues.join(" "));
+      plan = repairTourPlan(plan, request);
+      const remaining = checkTourPlan(plan, request);
+      if (remaining.length > 0) throw new Error(`AI tour plan unusable after repair: ${remaining.join(" ")}`);
     }
     
-    if (userName) {
-      prompt += ` The user's name is ${userName}.`;
-    }
+    const byId = new Map(sights.map(sight => [sight.id.toString(), sight]));
+    const route = plan.stops.map(stop => ({
+      ...byId.get(stop.id)!,
+      dwellMinutes: stop.dwellMinutes,
+      rationale: stop.rationale || undefined,
+    }));
     
-    const transportMode = wizardSettings?.transportMode || 'walk';
-    const tourType = wizardSettings?.tourType || 'round-trip';
+    // Every day returns to the end point, so the route is held to the daily budgets once split
+    const dayRequest: TourPlanRequest = {
+      ...request,
+      maxDistanceKm: maxDistance / numberOfDays,
+      maxMinutes: dailyMinutes,
+      maxStops: MAX_STOPS_PER_DAY,
+      numberOfDays: 1,
+    };
+    const days = splitIntoDays(route, start, end, request.minutesPerKm, request.defaultDwellMinutes, numberOfDays, dailyMinutes)
+      .map(day => {
+        const stops = day.map(sight => ({
+          id: sight.id.toString(),
+          rationale: sight.rationale ?? "",
+          dwellMinutes: sight.dwellMinutes ?? request.defaultDwellMinutes,
+        }));
+        const dayPlan = repairTourPlan({ stops }, dayRequest);
+        const kept = new Set(dayPlan.stops.map(stop => stop.id));
+        return day.filter(sight => kept.has(sight.id.toString()));
+      })
+      .filter(day => day.length > 0);
     
-    prompt += `
+    const stopCount = days.reduce((sum, day) => sum + day.length, 0);
+    if (stopCount < MIN_PLANNED_STOPS) throw new Error(`AI tour plan unusable: only ${stopCount} stop(s) fit the daily budgets.`);
+    return days;
+  } catch (error) {
+    console.error("AI tour planning failed, falling back to local solver:", error);
+    return planDaysLocally(start, end, sights, maxDistance, wizardSettings, dayStarts, dailyMinutes);
+  }
+}
 
-Consider:
-- Total distance should not exceed ${maxDistance}km
-- Transport mode: ${transportMode}
-- Tour type: ${tourType}
-- Minimize backtracking and create an efficient route
-- Group nearby attractions together
-- Create a logical flow between different types of sights
-- Prioritize user interests when available
-- Limit to maximum 8 stops for a good experience
+// Where the tour finishes: back at the start for round trips, or the chosen end point
+function resolveTourEnd(
+  start: TourPoint,
+  wizardSettings?: import('./settings-store').TourWizardSettings
+): TourPoint {
+  const endPoint = wizardSettings?.endPoint;
+  if (wizardSettings?.tourType !== "point-to-point" || !endPoint) return start;
+  return { name: endPoint.name, latitude: endPoint.latitude, longitude: endPoint.longitude };
+}
 
-Return only the sight names in the optimal visiting order, separated by commas. Do not include explanations or additional text.`;
-    
-    const response = await fetch("https://toolkit.rork.com/text/llm/", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert tour guide and route optimizer. Provide concise, practical tour routes that consider user preferences and distance constraints."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ]
-      }),
-    });
+function legBetween(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number },
+  minutesPerKm: number
+): TourLeg {
+  const distance = calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+  return { distance, walkingTime: Math.ceil(distance * minutesPerKm) };
+}
+
+// Split an ordered route into at most `numberOfDays` days of `dailyMinutes` each.
+// Every day leaves from `start` and finishes at `end`; stops that no longer fit
+// into the last day are dropped.
+function splitIntoDays(
+  route: PlannedSight[],
+  start: TourPoint,
+  end: TourPoint,
+  minutesPerKm: number,
+  minutesPerStop: number,
+  numberOfDays: number,
+  dailyMinutes: number
+): PlannedSight[][] {
+  const days: PlannedSight[][] = [[]];
+  let usedMinutes = 0;
+  
+  for (const sight of route) {
+    const currentDay = days[days.length - 1];
+    const previous = currentDay[currentDay.length - 1] ?? start;
+    const travelMinutes = legBetween(previous, sight, minutesPerKm).walkingTime;
+    const finishMinutes = legBetween(sight, end, minutesPerKm).walkingTime;
+    const stayMinutes = sight.dwellMinutes ?? minutesPerStop;
     
-    if (!response.ok) {
-      throw new Error("AI optimization failed");
+    // Always keep at least one stop per day, even if it alone exceeds the budget
+    if (currentDay.length === 0 || usedMinutes + travelMinutes + stayMinutes + finishMinutes <= dailyMinutes) {
+      currentDay.push(sight);
+      usedMinutes += travelMinutes + stayMinutes;
+      continue;
     }
     
-    const data = await response.json();
-    const sightNames = data.completion.split(",").map((name: string) => name.trim());
+    if (days.length >= numberOfDays) break;
+    days.push([sight]);
+    usedMinutes = legBetween(start, sight, minutesPerKm).walkingTime + stayMinutes;
+  }
+  
+  return days.filter(day => day.length > 0);
+}
+
+// Route a single leg, picking the per-leg mode for mixed tours
+async function routeLeg(
+  router: RoutingProvider,
+  from: LatLng,
+  to: LatLng,
+  tourMode: TransportMode
+): Promise<TourLeg> {
+  const mode = getLegTransportMode(tourMode, calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude));
+  const leg = await router.route(from, to, mode);
+  return { distance: leg.distance, walkingTime: Math.ceil(leg.duration), mode, geometry: leg.geometry };
+}
+
+// Turn the sights of one day into numbered stops with legs and day statistics
+async function buildTourDay(
+  dayNumber: number,
+  daySights: PlannedSight[],
+  start: TourPoint,
+  end: TourPoint,
+  firstOrder: number,
+  router: RoutingProvider,
+  tourMode: TransportMode,
+  minutesPerStop: number,
+  startsAt: Date
+): Promise<TourDay> {
+  const [startLeg, endLeg, ...stopLegs] = await Promise.all([
+    routeLeg(router, start, daySights[0], tourMode),
+    routeLeg(router, daySights[daySights.length - 1], end, tourMode),
+    ...daySights.slice(0, -1).map((sight, index) => routeLeg(router, sight, daySights[index + 1], tourMode)),
+  ]);
+  
+  // Clock times along the route, waiting briefly where a sight opens soon after arrival
+  let clock = addMinutes(startsAt, startLeg.walkingTime);
+  const sights: TourStop[] = daySights.map((sight, index) => {
+    const leg = stopLegs[index];
+    const visit = planVisit(sight.openingHours, clock, sight.dwellMinutes ?? minutesPerStop, MAX_OPENING_WAIT_MINUTES);
+    clock = addMinutes(visit.departure, leg?.walkingTime ?? 0);
     
-    // Map AI response back to sight objects
-    const optimizedRoute: Sight[] = [];
-    sightNames.forEach((name: string) => {
-      const sight = sights.find(s => 
-        s.name.toLowerCase().includes(name.toLowerCase()) || 
-        name.toLowerCase().includes(s.name.toLowerCase())
-      );
-      if (sight && !optimizedRoute.find(r => r.id === sight.id)) {
-        optimizedRoute.push(sight);
+    return {
+      ...sight,
+      order: firstOrder + index,
+      distanceToNext: leg?.distance ?? 0,
+      walkingTimeToNext: leg?.walkingTime ?? 0,
+      modeToNext: leg?.mode,
+      routeToNext: leg?.geometry,
+      plannedArrival: visit.arrival,
+      plannedDeparture: visit.departure,
+      openingStatus: visit.status,
+    };
+  });
+  const endsAt = addMinutes(clock, endLeg.walkingTime);
+  
+  const stopsDistance = sights.reduce((sum, stop) => sum + (stop.distanceToNext || 0), 0);
+  
+  return {
+    day: dayNumber,
+    sights,
+    startLeg,
+    endLeg,
+    totalDistance: startLeg.distance + stopsDistance + endLeg.distance,
+    estimatedDuration: Math.round((endsAt.getTime() - startsAt.getTime()) / 60000),
+    startsAt,
+    endsAt,
+  };
+}
+
+// Start of each tour day: the first day starts at `startTime` today (tomorrow if that has
+// passed) or right now without one; later days start at `startTime` or DEFAULT_DAY_START
+function getDayStarts(now: Date, numberOfDays: number, startTime?: string): Date[] {
+  const atTime = (day: Date, time: string) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    const date = new Date(day);
+    date.setHours(hours, minutes, 0, 0);
+    return date;
+  };
+  
+  let first = startTime ? atTime(now, startTime) : now;
+  if (first < now) first = addMinutes(first, 24 * 60);
+  
+  return Array.from({ length: numberOfDays }, (_, index) => {
+    if (index === 0) return first;
+    const day = new Date(first);
+    day.setDate(day.getDate() + index);
+    return atTime(day, startTime ?? DEFAULT_DAY_START);
+  });
+}
+
+function isOpenDuringDay(sight: Sight, dayStart: Date, dailyMinutes: number): boolean {
+  return !sight.openingHours || isOpenBetween(sight.openingHours, dayStart, addMinutes(dayStart, dailyMinutes));
+}
+
+// Every sight whose hours are known is closed for the rest of the day (a place that is
+// only known to be closed right now counts as closed)
+function isClosedForTheDay(sights: Sight[], dayStart: Date, dailyMinutes: number): boolean {
+  const known = sights.filter(sight => sight.openingHours || sight.openNow !== undefined);
+  return known.length > 0 && known.every(sight =>
+    sight.openingHours ? !isOpenDuringDay(sight, dayStart, dailyMinutes) : !sight.openNow
+  );
+}
+
+// Weekly hours of the chosen Google places that don't have them yet (the nearby search
+// only says whether a place is open right now); cached on the sights for next time
+async function loadOpeningHours(sights: Sight[]): Promise<Map<string, OpeningHours>> {
+  const missing = sights.filter(sight => sight.placeId && !sight.openingHours);
+  const results = await Promise.allSettled(missing.map(sight => fetchOpeningHours(sight.placeId!)));
+  
+  const hours = new Map<string, OpeningHours>();
+  results.forEach((result, index) => {
+    if (result.status !== "fulfilled" || !result.value) return;
+    const id = missing[index].id.toString();
+    hours.set(id, result.value);
+    useSightsStore.getState().updateSightDetails(id, { openingHours: result.value });
+  });
+  return hours;
+}
+
+// Drop sights closed for the whole day, then move stops that would be closed on arrival
+// to a position where they are open, as long as that lowers the number of closed stops.
+// Times are estimated from straight-line distances; buildTourDay schedules the real legs.
+function arrangeForOpeningHours(
+  route: PlannedSight[],
+  start: TourPoint,
+  dayStart: Date,
+  dailyMinutes: number,
+  minutesPerKm: number,
+  minutesPerStop: number
+): PlannedSight[] {
+  const closedStops = (stops: PlannedSight[]) => {
+    let clock = dayStart;
+    let previous: { latitude: number; longitude: number } = start;
+    let closed = 0;
+    for (const sight of stops) {
+      const arrival = addMinutes(clock, legBetween(previous, sight, minutesPerKm).walkingTime);
+      const visit = planVisit(sight.openingHours, arrival, sight.dwellMinutes ?? minutesPerStop, MAX_OPENING_WAIT_MINUTES);
+      if (visit.status === "closed") closed++;
+      clock = visit.departure;
+      previous = sight;
+    }
+    return closed;
+  };
+  
+  let best = route.filter(sight => isOpenDuringDay(sight, dayStart, dailyMinutes));
+  let bestClosed = closedStops(best);
+  
+  let improved = true;
+  while (improved && bestClosed > 0) {
+    improved = false;
+    for (let from = 0; from < best.length && !improved; from++) {
+      for (let to = 0; to < best.length && !improved; to++) {
+        if (to === from) continue;
+        const moved = [...best];
+        moved.splice(to, 0, ...moved.splice(from, 1));
+        const closed = closedStops(moved);
+        if (closed < bestClosed) {
+          best = moved;
+          bestClosed = closed;
+          improved = true;
+        }
       }
-    });
-    
-    // If AI didn't return enough sights, add some nearby ones
-    if (optimizedRoute.length < 3) {
-      const remainingSights = sights
-        .filter(sight => !optimizedRoute.find(r => r.id === sight.id))
-        .sort((a, b) => (a.distance || 0) - (b.distance || 0));
-      
-      optimizedRoute.push(...remainingSights.slice(0, Math.min(5, remainingSights.length)));
     }
-    
-    return optimizedRoute.length > 0 ? optimizedRoute : optimizeTourSimple(userLocation, sights, maxDistance);
-    
-  } catch (error) {
-    console.error("AI tour optimization failed, falling back to simple algorithm:", error);
-    return optimizeTourSimple(userLocation, sights, maxDistance, wizardSettings);
   }
+  return best;
 }
 
-// Helper function to get transport time multiplier (minutes per km)
-function getTransportTimeMultiplier(transportMode: import('./settings-store').TransportMode): number {
-  switch (transportMode) {
-    case 'walk': return 12; // 12 minutes per km walking
-    case 'taxi': return 3; // 3 minutes per km by taxi
-    case 'public': return 6; // 6 minutes per km by public transport
-    case 'mix': return 8; // 8 minutes per km mixed transport
-    default: return 12;
-  }
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60000);
+}
+
+// The sight of a tour stop, without its place in that tour
+export function withoutTourPlan(stop: TourStop): Sight {
+  const {
+    order, distanceToNext, walkingTimeToNext, modeToNext, routeToNext,
+    arrivedAt, departedAt, plannedArrival, plannedDeparture, openingStatus, dwellMinutes, rationale,
+    ...sight
+  } = stop;
+  return sight;
+}
+
+// Days of a tour; tours saved before multi-day planning are treated as a single day
+export function getTourDays(tour: Tour): TourDay[] {
+  if (tour.days && tour.days.length > 0) return tour.days;
+  return [{
+    day: 1,
+    sights: tour.sights,
+    totalDistance: tour.totalDistance,
+    estimatedDuration: tour.estimatedDuration,
+  }];
+}
+
+// A tour from days of stops that are already in order, with straight-line legs.
+// Used for tours that come from outside the planner (shared links, imported files).
+export function buildStraightLineTour({
+  id,
+  name,
+  days,
+  start,
+  end,
+  transportMode = "walk",
+  detailLevel = "medium",
+}: {
+  id: string;
+  name: string;
+  days: Sight[][];
+  start: TourPoint;
+  end: TourPoint;
+  transportMode?: TransportMode;
+  detailLevel?: AudioLength;
+}): Tour {
+  const minutesPerKm = getTransportTimeMultiplier(transportMode);
+  const minutesPerStop = getDetailLevelTime(detailLevel);
+  
+  let order = 1;
+  const tourDays: TourDay[] = days.filter(stops => stops.length > 0).map((stops, index) => {
+    const startLeg = legBetween(start, stops[0], minutesPerKm);
+    const endLeg = legBetween(stops[stops.length - 1], end, minutesPerKm);
+    const sights: TourStop[] = stops.map((sight, stopIndex) => {
+      const next = stops[stopIndex + 1];
+      const leg = next ? legBetween(sight, next, minutesPerKm) : undefined;
+      return { ...sight, order: order++, distanceToNext: leg?.distance ?? 0, walkingTimeToNext: leg?.walkingTime ?? 0 };
+    });
+    const stopsDistance = sights.reduce((sum, stop) => sum + (stop.distanceToNext || 0), 0);
+    const stopsTime = sights.reduce((sum, stop) => sum + (stop.walkingTimeToNext || 0), 0);
+    
+    return {
+      day: index + 1,
+      sights,
+      startLeg,
+      endLeg,
+      totalDistance: startLeg.distance + stopsDistance + endLeg.distance,
+      estimatedDuration: startLeg.walkingTime + stopsTime + endLeg.walkingTime + sights.length * minutesPerStop,
+    };
+  });
+  
+  return {
+    id,
+    name,
+    sights: tourDays.flatMap(day => day.sights),
+    days: tourDays,
+    start,
+    end,
+    transportMode,
+    detailLevel,
+    totalDistance: tourDays.reduce((sum, day) => sum + day.totalDistance, 0),
+    estimatedDuration: tourDays.reduce((sum, day) => sum + day.estimatedDuration, 0),
+    createdAt: new Date(),
+  };
+}
+
+// Transport mode used for a single leg; mixed tours walk short legs and take a taxi otherwise
+export function getLegTransportMode(tourMode: TransportMode, distanceKm: number): RoutingMode {
+  if (tourMode !== "mix") return tourMode;
+  return distanceKm <= 1 ? "walk" : "taxi";
 }
 
 // Helper function to get time per sight based on detail level
-function getDetailLevelTime(detailLevel: import('./settings-store').AudioLength): number {
+export function getDetailLevelTime(detailLevel: import('./settings-store').AudioLength): number {
   switch (detailLevel) {
     case 'brief': return 5; // 5 minutes per sight for brief
     case 'medium': return 15; // 15 minutes per sight for medium
@@ -410,17 +796,3 @@ function getDetailLevelTime(detailLevel: import('./settings-store').AudioLength)
     default: return 15;
   }
 }
-
-// Haversine formula to calculate distance between two points
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371; // Radius of the Earth in kilometers
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a = 
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-    Math.sin(dLon/2) * Math.sin(dLon/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  const distance = R * c; // Distance in kilometers
-  return distance;
-}
\ No newline at end of file
@@ -1,12 +1,65 @@
 export type SightTier = 1 | 2 | 3;
+export type SightSource = "google" | "overpass" | "wikipedia" | "local";
+
+// Ids of the same place in each source it was found in; Wikidata links the open sources together
+export type SightSourceIds = Partial<Record<SightSource | "wikidata", string>>;
+
+// Field groups of a merged sight, each taken from one source (see utils/sight-merge)
+export type SightField =
+  | "name"
+  | "category"
+  | "location"
+  | "imageUrl"
+  | "yearBuilt"
+  | "descriptions"
+  | "rating"
+  | "openingHours";
+export type SightProvenance = Partial<Record<SightField, SightSource>>;
+
+// Material a narration was written from; the text cites it as [id]
+export interface NarrationSource {
+  id: number;
+  title: string;
+  kind: "wikipedia" | "wikidata" | "google" | "sight";
+  url?: string;
+}
 
 export interface SavedContent {
   id: string;
   language: string;
   length: string;
   interests: string;
+  persona: string;   // narration persona key, see utils/narration-personas
   content: string;
   createdAt: Date;
+  audioKey?: string; // narration audio in utils/audio-cache
+  sources?: NarrationSource[];
+}
+
+// Weekly opening hours in Google's shape: day 0 is Sunday, times are minutes since midnight
+export interface OpeningTime {
+  day: number;
+  time: number;
+}
+
+export interface OpeningPeriod {
+  open: OpeningTime;
+  close?: OpeningTime;          // missing when open around the clock
+}
+
+export interface OpeningHours {
+  periods: OpeningPeriod[];
+  weekdayText?: string[];       // one line per weekday as the source formats them
+}
+
+// A saved sight. The snapshot keeps it listed when it's no longer in the sight cache.
+export interface FavoriteSight {
+  sightId: string;
+  sight?: Sight;                // as it was when last saved, without narrations; missing for
+                                // favorites saved before snapshots until looked up again
+  folder?: string;
+  note?: string;
+  addedAt: number;
 }
 
 export interface Sight {
@@ -23,7 +76,20 @@ export interface Sight {
   briefDescriptionDE: string;
   fullDescriptionDE: string;
   rating?: number;
+  userRatingsTotal?: number;   // how many Google ratings `rating` is based on
   placeId?: string;
+  vicinity?: string;           // short address from the nearby search
   tier: SightTier;
+  openingHours?: OpeningHours;
+  openNow?: boolean;           // from the nearby search, when no weekly hours are known
+  source?: SightSource;        // provider whose data the sight is based on
+  sourceIds?: SightSourceIds;
+  provenance?: SightProvenance;
+  // Filled lazily when the sight is opened (utils/sight-enrichment)
+  architect?: string;
+  heritageStatus?: string;
+  website?: string;
+  phoneNumber?: string;
+  enrichedAt?: number;
   savedContent?: SavedContent[];
 }
\ No newline at end of file
@@ -0,0 +1,170 @@
+// utils/audio-cache.ts
+// Narration audio stored on disk under a key derived from everything that shapes the
+// audio (text, voice, model, language), so the same narration is synthesized once.
+// The index lives in AsyncStorage; the least recently played files are evicted once
+// the cache grows beyond MAX_CACHE_BYTES, except for pinned ones (e.g. offline tours).
+import * as FileSystem from "expo-file-system";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { hashString } from "./hash";
+
+export interface AudioCacheKeyInput {
+  text: string;
+  voice: string;
+  model: string;
+  language: string;
+}
+
+interface AudioCacheEntry {
+  file: string;        // file name inside CACHE_DIR
+  size: number;        // bytes
+  lastUsedAt: number;
+  pins?: string[];     // owners that need the file kept, e.g. offline tour ids
+}
+
+const INDEX_STORAGE_KEY = "narration-audio-cache";
+const CACHE_DIR = FileSystem.documentDirectory + "narration-audio/";
+const MAX_CACHE_BYTES = 150 * 1024 * 1024;
+
+let index: Record<string, AudioCacheEntry> | null = null;
+let loading: Promise<Record<string, AudioCacheEntry>> | null = null;
+
+export function getAudioCacheKey({ text, voice, model, language }: AudioCacheKeyInput): string {
+  return hashString([model, voice, language, text.trim()].join("\u0000"));
+}
+
+// File URI for `key`, or null when it is not cached (or its file has gone missing)
+export async function getCachedAudio(key: string): Promise<string | null> {
+  const entries = await loadIndex();
+  const entry = entries[key];
+  if (!entry) return null;
+
+  const uri = CACHE_DIR + entry.file;
+  const info = await FileSystem.getInfoAsync(uri);
+  if (!info.exists) {
+    delete entries[key];
+    await saveIndex();
+    return null;
+  }
+
+  entry.lastUsedAt = Date.now();
+  await saveIndex();
+  return uri;
+}
+
+// Store base64-encoded MP3 data under `key` and return its file URI
+export async function putCachedAudio(key: string, base64: string): Promise<string> {
+  const entries = await loadIndex();
+  await FileSystem.makeDirectoryAsync(CACHE_DIR, { intermediates: true }).catch(() => {});
+
+  const file = `${key}.mp3`;
+  const uri = CACHE_DIR + file;
+  await FileSystem.writeAsStringAsync(uri, base64, { encoding: FileSystem.EncodingType.Base64 });
+
+  const info = await FileSystem.getInfoAsync(uri);
+  entries[key] = {
+    file,
+    size: info.exists ? info.size : Math.floor((base64.length * 3) / 4),
+    lastUsedAt: Date.now(),
+  };
+
+  await evict(key);
+  await saveIndex();
+  return uri;
+}
+
+export async function removeCachedAudio(key: string) {
+  const entries = await loadIndex();
+  const entry = entries[key];
+  if (!entry) return;
+  delete entries[key];
+  await FileSystem.deleteAsync(CACHE_DIR + entry.file, { idempotent: true }).catch(() => {});
+  await saveIndex();
+}
+
+// Keep `key` out of LRU eviction until `owner` releases it
+export async function pinCachedAudio(key: string, owner: string) {
+  const entries = await loadIndex();
+  const entry = entries[key];
+  if (!entry || entry.pins?.includes(owner)) return;
+  entry.pins = [...(entry.pins ?? []), owner];
+  await saveIndex();
+}
+
+export async function unpinCachedAudio(owner: string) {
+  const entries = await loadIndex();
+  for (const entry of Object.values(entries)) {
+    if (entry.pins?.includes(owner)) entry.pins = entry.pins.filter((pin) => pin !== owner);
+  }
+  await evict();
+  await saveIndex();
+}
+
+export async function clearAudioCache() {
+  index = {};
+  await FileSystem.deleteAsync(CACHE_DIR, { idempotent: true }).catch(() => {});
+  await saveIndex();
+}
+
+export async function getAudioCacheSize(): Promise<number> {
+  const entries = await loadIndex();
+  return Object.values(entries).reduce((sum, entry) => sum + entry.size, 0);
+}
+
+/* -------------------------------- Helpers -------------------------------- */
+
+async function loadIndex(): Promise<Record<string, AudioCacheEntry>> {
+  if (index) return index;
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(INDEX_STORAGE_KEY);
+        index = raw ? JSON.parse(raw) : {};
+      } catch (e) {
+        console.warn("Could not read audio cache index", e);
+        index = {};
+      }
+      await removeLegacyNarrations();
+      return index!;
+    })();
+  }
+  return loading;
+}
+
+async function saveIndex() {
+  try {
+    await AsyncStorage.setItem(INDEX_STORAGE_KEY, JSON.stringify(index ?? {}));
+  } catch (e) {
+    console.warn("Could not write audio cache index", e);
+  }
+}
+
+// Drop least recently used unpinned entries until the cache fits, never evicting `keep`
+async function evict(keep?: string) {
+  const entries = index ?? {};
+  let total = Object.values(entries).reduce((sum, entry) => sum + entry.size, 0);
+  if (total <= MAX_CACHE_BYTES) return;
+
+  const oldestFirst = Object.entries(entries)
+    .filter(([key, entry]) => key !== keep && !entry.pins?.length)
+    .sort(([, a], [, b]) => a.lastUsedAt - b.lastUsedAt);
+
+  for (const [key, entry] of oldestFirst) {
+    if (total <= MAX_CACHE_BYTES) break;
+    delete entries[key];
+    total -= entry.size;
+    await FileSystem.deleteAsync(CACHE_DIR + entry.file, { idempotent: true }).catch(() => {});
+  }
+}
+
+// Earlier versions wrote a new `narration_<timestamp>.mp3` per playback and never removed it
+async function removeLegacyNarrations() {
+  if (!FileSystem.cacheDirectory) return;
+  try {
+    const files = await FileSystem.readDirectoryAsync(FileSystem.cacheDirectory);
+    await Promise.all(
+      files
+        .filter((name) => /^narration_\d+\.mp3$/.test(name))
+        .map((name) => FileSystem.deleteAsync(FileSystem.cacheDirectory + name, { idempotent: true }))
+    );
+  } catch {}
+}
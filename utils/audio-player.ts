@@ -0,0 +1,236 @@
+// utils/audio-player.ts
+// Narration playback queue. Owns the expo-av sound (or the system TTS utterance for
+// tracks without an audio file) and mirrors its state into `usePlayerStore`.
+import { Platform } from "react-native";
+import { Audio, InterruptionModeAndroid, InterruptionModeIOS, AVPlaybackStatus } from "expo-av";
+
+import { usePlayerStore, getCurrentTrack, PlayerTrack } from "@/stores/player-store";
+
+const PROGRESS_INTERVAL_MS = 500;
+
+let sound: Audio.Sound | null = null;
+let sessionConfigured = false;
+// Bumped whenever the current track is replaced so late callbacks of the old one are ignored
+let token = 0;
+
+export async function configureAudioSession() {
+  if (sessionConfigured) return;
+  try {
+    await Audio.setAudioModeAsync({
+      playsInSilentModeIOS: true,
+      staysActiveInBackground: true,
+      interruptionModeIOS: InterruptionModeIOS.DoNotMix,
+      interruptionModeAndroid: InterruptionModeAndroid.DoNotMix,
+      shouldDuckAndroid: true,
+      playThroughEarpieceAndroid: false,
+    });
+    sessionConfigured = true;
+  } catch (e) {
+    console.warn("Could not configure audio session", e);
+  }
+}
+
+/* -------------------------------- Queue -------------------------------- */
+
+// Replace the queue and start playing at `startIndex`
+export async function playTracks(tracks: PlayerTrack[], startIndex = 0) {
+  await endCurrentTrack();
+  usePlayerStore.setState({ queue: tracks, currentIndex: -1 });
+  if (tracks.length > 0) await loadTrack(startIndex);
+}
+
+// Append to the queue; starts right away when nothing is playing
+export async function enqueueTrack(track: PlayerTrack) {
+  const { queue, currentIndex } = usePlayerStore.getState();
+  usePlayerStore.setState({ queue: [...queue, track] });
+  if (currentIndex < 0) await loadTrack(queue.length);
+}
+
+export async function skipToNext() {
+  const { queue, currentIndex } = usePlayerStore.getState();
+  await endCurrentTrack();
+  if (currentIndex + 1 < queue.length) await loadTrack(currentIndex + 1);
+  else resetPlayer();
+}
+
+export async function skipToPrevious() {
+  const { currentIndex, positionMillis } = usePlayerStore.getState();
+  // Like most players: restart the track unless we are at its very beginning
+  if (currentIndex <= 0 || positionMillis > 3000) {
+    if (sound) await seekTo(0);
+    return;
+  }
+  await endCurrentTrack();
+  await loadTrack(currentIndex - 1);
+}
+
+export async function stopPlayback() {
+  await endCurrentTrack();
+  resetPlayer();
+}
+
+/* ------------------------------- Transport ------------------------------- */
+
+export async function pause() {
+  const track = getCurrentTrack();
+  if (!track || !usePlayerStore.getState().isPlaying) return;
+
+  if (sound) {
+    try { await sound.pauseAsync(); } catch {}
+  } else {
+    const Speech = await import("expo-speech");
+    // Android cannot pause an utterance; stop it and read it again on resume
+    if (Platform.OS === "ios") Speech.pause();
+    else { token++; Speech.stop(); }
+  }
+  usePlayerStore.setState({ isPlaying: false });
+}
+
+export async function resume() {
+  const track = getCurrentTrack();
+  if (!track || usePlayerStore.getState().isPlaying) return;
+
+  if (sound) {
+    try { await sound.playAsync(); } catch {}
+    usePlayerStore.setState({ isPlaying: true });
+  } else if (Platform.OS === "ios") {
+    const Speech = await import("expo-speech");
+    Speech.resume();
+    usePlayerStore.setState({ isPlaying: true });
+  } else {
+    await speak(track, token);
+  }
+}
+
+export async function togglePlayPause() {
+  if (usePlayerStore.getState().isPlaying) await pause();
+  else await resume();
+}
+
+export async function seekTo(positionMillis: number) {
+  if (!sound) return;
+  const { durationMillis } = usePlayerStore.getState();
+  const clamped = Math.max(0, Math.min(positionMillis, durationMillis || positionMillis));
+  try {
+    await sound.setPositionAsync(clamped);
+    usePlayerStore.setState({ positionMillis: clamped });
+  } catch {}
+}
+
+export async function seekBy(deltaMillis: number) {
+  await seekTo(usePlayerStore.getState().positionMillis + deltaMillis);
+}
+
+/* -------------------------------- Helpers -------------------------------- */
+
+async function loadTrack(index: number) {
+  const track = usePlayerStore.getState().queue[index];
+  if (!track) return;
+
+  const current = ++token;
+  await configureAudioSession();
+  usePlayerStore.setState({
+    currentIndex: index,
+    nowPlaying: { title: track.title, artwork: track.artwork, sightId: track.sightId },
+    isPlaying: false,
+    isBuffering: true,
+    canSeek: !!track.uri,
+    positionMillis: 0,
+    durationMillis: 0,
+  });
+
+  if (!track.uri) {
+    await speak(track, current);
+    return;
+  }
+
+  try {
+    const { sound: created } = await Audio.Sound.createAsync(
+      { uri: track.uri },
+      { shouldPlay: true, progressUpdateIntervalMillis: PROGRESS_INTERVAL_MS },
+      (status) => handleStatus(status, current)
+    );
+    if (current !== token) {
+      await created.unloadAsync();
+      return;
+    }
+    sound = created;
+    track.onStart?.();
+  } catch (e) {
+    console.warn("Could not play audio file, falling back to system TTS", e);
+    if (current !== token) return;
+    usePlayerStore.setState({ canSeek: false });
+    await speak(track, current);
+  }
+}
+
+async function speak(track: PlayerTrack, current: number) {
+  const Speech = await import("expo-speech");
+  if (current !== token) return;
+
+  usePlayerStore.setState({ isPlaying: true, isBuffering: false });
+  track.onStart?.();
+  Speech.speak(track.text, {
+    language: track.language === "DE" ? "de-DE" : "en-US",
+    pitch: track.pitch,
+    rate: 0.98,
+    onDone: () => {
+      if (current === token) finishTrack();
+    },
+  });
+}
+
+function handleStatus(status: AVPlaybackStatus, current: number) {
+  if (current !== token) return;
+  if (!status.isLoaded) {
+    if (status.error) console.warn("Playback error:", status.error);
+    return;
+  }
+
+  usePlayerStore.setState({
+    isPlaying: status.isPlaying,
+    isBuffering: status.isBuffering,
+    positionMillis: status.positionMillis,
+    durationMillis: status.durationMillis ?? 0,
+  });
+
+  if (status.didJustFinish) finishTrack();
+}
+
+// Natural end of a track: notify it and move on through the queue
+async function finishTrack() {
+  const { queue, currentIndex } = usePlayerStore.getState();
+  await endCurrentTrack();
+  if (currentIndex + 1 < queue.length) await loadTrack(currentIndex + 1);
+  else resetPlayer();
+}
+
+// Release whatever is playing and tell the track it is over
+async function endCurrentTrack() {
+  const track = getCurrentTrack();
+  token++;
+
+  if (sound) {
+    const old = sound;
+    sound = null;
+    try { await old.stopAsync(); await old.unloadAsync(); } catch {}
+  } else if (track) {
+    const Speech = await import("expo-speech");
+    try { Speech.stop(); } catch {}
+  }
+
+  track?.onEnd?.();
+}
+
+function resetPlayer() {
+  usePlayerStore.setState({
+    queue: [],
+    currentIndex: -1,
+    nowPlaying: null,
+    isPlaying: false,
+    isBuffering: false,
+    canSeek: false,
+    positionMillis: 0,
+    durationMillis: 0,
+  });
+}
@@ -0,0 +1,22 @@
+// utils/geo.ts
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+// Haversine formula to calculate distance between two points (km)
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371;
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) ** 2;
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+export function distanceBetween(a: LatLng, b: LatLng): number {
+  return calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+}
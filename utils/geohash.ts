@@ -0,0 +1,108 @@
+// utils/geohash.ts
+// Standard base32 geohash. Precision 5 cells are about 4.9 × 4.9 km, 6 about 1.2 × 0.6 km.
+
+export interface GeohashBounds {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+export function encodeGeohash(latitude: number, longitude: number, precision: number): string {
+  let minLat = -90;
+  let maxLat = 90;
+  let minLng = -180;
+  let maxLng = 180;
+  let hash = "";
+  let bits = 0;
+  let value = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (minLng + maxLng) / 2;
+      if (longitude >= mid) {
+        value = value * 2 + 1;
+        minLng = mid;
+      } else {
+        value = value * 2;
+        maxLng = mid;
+      }
+    } else {
+      const mid = (minLat + maxLat) / 2;
+      if (latitude >= mid) {
+        value = value * 2 + 1;
+        minLat = mid;
+      } else {
+        value = value * 2;
+        maxLat = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
+
+export function decodeGeohashBounds(hash: string): GeohashBounds {
+  let minLat = -90;
+  let maxLat = 90;
+  let minLng = -180;
+  let maxLng = 180;
+  let evenBit = true;
+
+  for (const char of hash) {
+    const value = BASE32.indexOf(char);
+    if (value < 0) throw new Error(`Invalid geohash: ${hash}`);
+    for (let bit = 4; bit >= 0; bit--) {
+      const isSet = (value >> bit) & 1;
+      if (evenBit) {
+        const mid = (minLng + maxLng) / 2;
+        if (isSet) minLng = mid;
+        else maxLng = mid;
+      } else {
+        const mid = (minLat + maxLat) / 2;
+        if (isSet) minLat = mid;
+        else maxLat = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return { minLatitude: minLat, maxLatitude: maxLat, minLongitude: minLng, maxLongitude: maxLng };
+}
+
+// All cells of `precision` that intersect the bounding box of a circle around the point
+export function geohashesAround(latitude: number, longitude: number, radiusKm: number, precision: number): string[] {
+  const latDelta = radiusKm / 111;
+  const lngDelta = radiusKm / (111 * Math.max(Math.cos((latitude * Math.PI) / 180), 0.01));
+  const minLat = Math.max(-89.999, latitude - latDelta);
+  const maxLat = Math.min(89.999, latitude + latDelta);
+  const minLng = longitude - lngDelta;
+  const maxLng = longitude + lngDelta;
+
+  // Step by the size of one cell, read from the cell at the center
+  const cell = decodeGeohashBounds(encodeGeohash(latitude, longitude, precision));
+  const latStep = cell.maxLatitude - cell.minLatitude;
+  const lngStep = cell.maxLongitude - cell.minLongitude;
+
+  const hashes = new Set<string>();
+  for (let lat = minLat; lat < maxLat + latStep; lat += latStep) {
+    for (let lng = minLng; lng < maxLng + lngStep; lng += lngStep) {
+      hashes.add(encodeGeohash(Math.min(lat, maxLat), wrapLongitude(Math.min(lng, maxLng)), precision));
+    }
+  }
+  return [...hashes];
+}
+
+function wrapLongitude(longitude: number): number {
+  return ((((longitude + 180) % 360) + 360) % 360) - 180;
+}
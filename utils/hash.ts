@@ -0,0 +1,23 @@
+// utils/hash.ts
+
+// Stable 112-bit hex digest of `input` for cache keys and file names (not for security).
+// Two differently seeded 53-bit hashes make collisions practically impossible.
+export function hashString(input: string): string {
+  return cyrb53(input, 1).toString(16).padStart(14, "0") + cyrb53(input, 2).toString(16).padStart(14, "0");
+}
+
+// cyrb53 string hash (public domain)
+function cyrb53(str: string, seed = 0): number {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
@@ -0,0 +1,369 @@
+// utils/llm-client.ts
+// One way to talk to language models. Providers: OpenAI, any server with the OpenAI chat API
+// (a local llama.cpp or Ollama, or a hosted one), the Rork toolkit and a deterministic mock.
+// Every request gets a timeout and retries on network errors, rate limits and server errors;
+// the token usage each provider reports is added up in the usage store. Providers that can
+// stream deliver the answer piece by piece as it is generated (server-sent events over XHR,
+// since React Native's fetch has no readable body stream).
+import { useSettingsStore, LlmProviderType } from "@/stores/settings-store";
+import { useLlmUsageStore } from "@/stores/llm-usage-store";
+import { hashString } from "./hash";
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  json?: boolean;          // ask for a JSON object (the prompt must mention JSON)
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;    // cancels a stream
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmCompletion {
+  text: string;
+  usage?: LlmUsage;        // missing when the provider doesn't report it
+}
+
+export interface SpeechRequest {
+  input: string;
+  voice: string;
+  timeoutMs?: number;
+}
+
+export interface LlmClient {
+  name: string;
+  complete: (request: LlmRequest) => Promise<LlmCompletion>;
+  // Calls `onText` with each new piece of the answer, resolves with all of it; not retried
+  stream?: (request: LlmRequest, onText: (delta: string) => void) => Promise<LlmCompletion>;
+  speech?: (request: SpeechRequest) => Promise<ArrayBuffer>;   // providers with an audio API
+  speechModel?: string;    // the model `speech` uses, part of the audio cache key
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const SPEECH_TIMEOUT_MS = 60000;
+const STREAM_TIMEOUT_MS = 120000;
+const MAX_RETRIES = 2;
+const RETRY_DELAY_MS = 750;
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+const OPENAI_DEFAULT_MODEL = "gpt-4o-mini";
+const OPENAI_SPEECH_MODEL = "gpt-4o-mini-tts";
+const COMPATIBLE_DEFAULT_MODEL = "llama3.1";
+
+/* -------------------------------- Providers -------------------------------- */
+
+// OpenAI, or any server speaking its API under `baseUrl` (llama.cpp, Ollama, vLLM, …).
+// Few of those servers have an audio API, so speech is only offered with a `speechModel`.
+export function createOpenAiCompatibleClient({
+  name,
+  baseUrl,
+  apiKey,
+  model,
+  speechModel,
+}: {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  speechModel?: string;
+}): LlmClient {
+  const root = baseUrl.replace(/\/+$/, "");
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+  };
+
+  const chatBody = (request: LlmRequest) => ({
+    model,
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    response_format: request.json ? { type: "json_object" } : undefined,
+  });
+
+  return {
+    name,
+    complete: async (request) => {
+      const response = await fetchWithRetry(name, `${root}/chat/completions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(chatBody(request)),
+      }, request.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+      const data = await response.json();
+      const text = data?.choices?.[0]?.message?.content;
+      if (typeof text !== "string") throw new Error(`${name}: the answer has no message content`);
+      return {
+        text: text.trim(),
+        usage: data.usage
+          ? { promptTokens: data.usage.prompt_tokens ?? 0, completionTokens: data.usage.completion_tokens ?? 0 }
+          : undefined,
+      };
+    },
+    stream: (request, onText) =>
+      streamChatCompletion(name, `${root}/chat/completions`, headers, {
+        ...chatBody(request),
+        stream: true,
+        stream_options: { include_usage: true },
+      }, request, onText),
+    speechModel,
+    speech: speechModel
+      ? async (request) => {
+          const response = await fetchWithRetry(name, `${root}/audio/speech`, {
+            method: "POST",
+            headers,
+            body: JSON.stringify({ model: speechModel, voice: request.voice, input: request.input, format: "mp3" }),
+          }, request.timeoutMs ?? SPEECH_TIMEOUT_MS);
+          return response.arrayBuffer();
+        }
+      : undefined,
+  };
+}
+
+export function createOpenAiClient(apiKey: string, model = OPENAI_DEFAULT_MODEL): LlmClient {
+  return createOpenAiCompatibleClient({ name: "openai", baseUrl: OPENAI_BASE_URL, apiKey, model, speechModel: OPENAI_SPEECH_MODEL });
+}
+
+// Rork's hosted toolkit: no key, no model choice, no usage report, no JSON mode
+export function createRorkClient(): LlmClient {
+  return {
+    name: "rork",
+    complete: async (request) => {
+      const response = await fetchWithRetry("rork", "https://toolkit.rork.com/text/llm/", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messages: request.messages }),
+      }, request.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+      const data = await response.json();
+      if (typeof data?.completion !== "string") throw new Error("rork: the answer has no completion");
+      return { text: data.completion.trim() };
+    },
+  };
+}
+
+// Same request, same answer, without a network: for tests, demos and working offline.
+// `respond` decides the answer; by default it's a short text derived from the last message.
+export function createMockClient(respond?: (request: LlmRequest) => string): LlmClient {
+  const client: LlmClient = {
+    name: "mock",
+    // Word by word, like a real stream
+    stream: async (request, onText) => {
+      const completion = await client.complete(request);
+      for (const word of completion.text.match(/\S+\s*/g) ?? []) {
+        if (request.signal?.aborted) throw new Error("mock stream cancelled");
+        onText(word);
+      }
+      return completion;
+    },
+    complete: async (request) => {
+      const last = request.messages[request.messages.length - 1]?.content ?? "";
+      const text = respond
+        ? respond(request)
+        : request.json
+          ? JSON.stringify({ mock: hashString(last).slice(0, 8) })
+          : `Mock answer ${hashString(last).slice(0, 8)} to: ${last.slice(0, 80)}`;
+      const promptChars = request.messages.reduce((sum, message) => sum + message.content.length, 0);
+      return {
+        text,
+        usage: { promptTokens: Math.ceil(promptChars / 4), completionTokens: Math.ceil(text.length / 4) },
+      };
+    },
+  };
+  return client;
+}
+
+// The answer streamed when the client can, otherwise completed and handed over in one piece
+export async function streamCompletion(
+  client: LlmClient,
+  request: LlmRequest,
+  onText: (delta: string) => void
+): Promise<LlmCompletion> {
+  if (!client.stream) {
+    const completion = await client.complete(request);
+    onText(completion.text);
+    return completion;
+  }
+  return client.stream(request, onText);
+}
+
+/* -------------------------------- Settings --------------------------------- */
+
+type LlmSettings = {
+  llmProvider: LlmProviderType;
+  openAiApiKey: string;
+  llmServerUrl: string;
+  llmServerApiKey: string;
+  llmModel: string;
+  llmSpeechModel: string;
+};
+
+// Whether the provider chosen in Settings can run (OpenAI needs a key, a server needs a URL)
+export function isLlmConfigured(settings: LlmSettings): boolean {
+  switch (settings.llmProvider) {
+    case "openai": return !!settings.openAiApiKey;
+    case "openai-compatible": return !!settings.llmServerUrl;
+    case "rork":
+    case "mock": return true;
+    default: return false;
+  }
+}
+
+// Client for the provider chosen in Settings, reporting usage; null when it isn't configured
+export function getLlmClient(): LlmClient | null {
+  const settings = useSettingsStore.getState();
+  if (!isLlmConfigured(settings)) return null;
+  return withUsageReporting(createClient(settings));
+}
+
+// Audio comes from the chosen provider when it has an audio API (a server only once the user
+// has named its speech model), else from OpenAI when a key is set
+export function getSpeechClient(): LlmClient | null {
+  const settings = useSettingsStore.getState();
+  const client = isLlmConfigured(settings) ? createClient(settings) : null;
+  if (client?.speech) return client;
+  return settings.openAiApiKey ? createOpenAiClient(settings.openAiApiKey) : null;
+}
+
+function createClient(settings: LlmSettings): LlmClient {
+  const model = settings.llmModel.trim();
+  switch (settings.llmProvider) {
+    case "openai":
+      return createOpenAiClient(settings.openAiApiKey, model || OPENAI_DEFAULT_MODEL);
+    case "openai-compatible":
+      return createOpenAiCompatibleClient({
+        name: "openai-compatible",
+        baseUrl: settings.llmServerUrl,
+        apiKey: settings.llmServerApiKey || undefined,
+        model: model || COMPATIBLE_DEFAULT_MODEL,
+        speechModel: settings.llmSpeechModel.trim() || undefined,
+      });
+    case "rork":
+      return createRorkClient();
+    case "mock":
+      return createMockClient();
+  }
+}
+
+function withUsageReporting(client: LlmClient): LlmClient {
+  const report = (completion: LlmCompletion) => {
+    useLlmUsageStore.getState().recordUsage(client.name, completion.usage);
+    return completion;
+  };
+  const { stream } = client;
+  return {
+    ...client,
+    complete: async (request) => report(await client.complete(request)),
+    stream: stream && (async (request, onText) => report(await stream(request, onText))),
+  };
+}
+
+/* --------------------------------- Helpers --------------------------------- */
+
+// A successful response; network errors, timeouts, 429 and 5xx are retried with backoff
+async function fetchWithRetry(provider: string, url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    if (attempt > 0) await delay(RETRY_DELAY_MS * 2 ** (attempt - 1));
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      if (response.ok) return response;
+
+      const detail = (await response.text().catch(() => "")).slice(0, 200);
+      lastError = new Error(`${provider} HTTP ${response.status}${detail ? `: ${detail}` : ""}`);
+      if (response.status !== 429 && response.status < 500) throw lastError;
+    } catch (error) {
+      if (error === lastError) throw error;
+      lastError = controller.signal.aborted ? new Error(`${provider} timed out after ${timeoutMs / 1000}s`) : error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+  throw lastError;
+}
+
+// OpenAI's chat completion stream: `data: {json}` lines ending with `data: [DONE]`
+function streamChatCompletion(
+  provider: string,
+  url: string,
+  headers: Record<string, string>,
+  body: object,
+  request: LlmRequest,
+  onText: (delta: string) => void
+): Promise<LlmCompletion> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let read = 0;
+    let pending = "";
+    let text = "";
+    let usage: LlmUsage | undefined;
+    let streamError: string | undefined;
+
+    const handleLine = (line: string) => {
+      if (!line.startsWith("data:")) return;
+      const data = line.slice(5).trim();
+      if (!data || data === "[DONE]") return;
+      try {
+        const event = JSON.parse(data);
+        if (event.error) streamError = event.error.message ?? String(event.error);
+        const delta = event.choices?.[0]?.delta?.content;
+        if (typeof delta === "string" && delta) {
+          text += delta;
+          onText(delta);
+        }
+        if (event.usage) {
+          usage = { promptTokens: event.usage.prompt_tokens ?? 0, completionTokens: event.usage.completion_tokens ?? 0 };
+        }
+      } catch {
+        console.warn(`${provider}: unreadable stream event`, data.slice(0, 100));
+      }
+    };
+    // Only complete lines are handled; the rest waits for the next progress event
+    const readNewLines = () => {
+      pending += xhr.responseText.slice(read);
+      read = xhr.responseText.length;
+      const lines = pending.split("\n");
+      pending = lines.pop() ?? "";
+      lines.forEach((line) => handleLine(line.trim()));
+    };
+
+    xhr.open("POST", url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.timeout = request.timeoutMs ?? STREAM_TIMEOUT_MS;
+    xhr.onprogress = () => {
+      if (xhr.status >= 200 && xhr.status < 300) readNewLines();
+    };
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new Error(`${provider} HTTP ${xhr.status}: ${xhr.responseText.slice(0, 200)}`));
+        return;
+      }
+      readNewLines();
+      handleLine(pending.trim());
+      if (streamError && !text) reject(new Error(`${provider}: ${streamError}`));
+      else resolve({ text: text.trim(), usage });
+    };
+    xhr.onerror = () => reject(new Error(`${provider} stream failed`));
+    xhr.ontimeout = () => reject(new Error(`${provider} timed out after ${xhr.timeout / 1000}s`));
+    xhr.onabort = () => reject(new Error(`${provider} stream cancelled`));
+    request.signal?.addEventListener("abort", () => xhr.abort());
+
+    xhr.send(JSON.stringify(body));
+  });
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,189 @@
+// utils/narration-personas.ts
+// Narration styles. Each persona is a pair of prompt templates (the narrator's role and the
+// instructions for one narration) with {{variables}} filled in per sight. The defaults below
+// can be edited in Settings; edits are stored as overrides in the settings store.
+import { Sight } from "@/types/sight";
+import { useSettingsStore, PersonaTemplate } from "@/stores/settings-store";
+import { LlmMessage } from "./llm-client";
+import { hashString } from "./hash";
+
+export interface NarrationPersona {
+  id: string;
+  label: string;
+  description: string;
+  template: PersonaTemplate;
+}
+
+export interface ResolvedPersona extends NarrationPersona {
+  // Identifies the persona and its template in SavedContent, so an edited template
+  // doesn't replay narrations written with the old one
+  key: string;
+  edited: boolean;
+}
+
+export interface NarrationVariables {
+  sight: string;
+  category: string;
+  interests: string;
+  length: string;
+  language: string;
+  listener: string;
+}
+
+export const DEFAULT_PERSONA_ID = "guide";
+
+export const PERSONA_VARIABLES: (keyof NarrationVariables)[] = ["sight", "category", "interests", "length", "language", "listener"];
+
+export const NARRATION_PERSONAS: NarrationPersona[] = [
+  {
+    id: "guide",
+    label: "Tour guide",
+    description: "Knowledgeable and engaging, a bit of everything.",
+    template: {
+      system: "You are a knowledgeable, engaging tour guide.",
+      prompt:
+        'Write a {{length}} spoken narration about "{{sight}}".\n' +
+        "Language: {{language}}.\n" +
+        "Focus on: {{interests}}.\n" +
+        "Address the listener as {{listener}}.\n" +
+        "No fluff; make it vivid, accurate, and easy to listen to.",
+    },
+  },
+  {
+    id: "historian",
+    label: "Historian",
+    description: "Dates, people and the events that shaped the place.",
+    template: {
+      system: "You are a historian who loves telling the story behind a place, precise about dates and sources.",
+      prompt:
+        'Write a {{length}} spoken narration about the history of "{{sight}}" ({{category}}).\n' +
+        "Language: {{language}}.\n" +
+        "Walk through how it came to be and how it changed, naming the people and events involved.\n" +
+        "Relate it to: {{interests}}.\n" +
+        "Address the listener as {{listener}}.\n" +
+        "Only state facts you are sure of; say so when something is legend or disputed.",
+    },
+  },
+  {
+    id: "storyteller",
+    label: "Kids' storyteller",
+    description: "Playful stories and questions for young listeners.",
+    template: {
+      system: "You are a warm, playful storyteller guiding children aged 6 to 10 through a city.",
+      prompt:
+        'Tell a {{length}} story about "{{sight}}" for children.\n' +
+        "Language: {{language}}.\n" +
+        "Use short sentences and simple words, one or two surprising facts and a question to look for something on the spot.\n" +
+        "Weave in: {{interests}}.\n" +
+        "Talk to {{listener}} by name.\n" +
+        "Keep it true; nothing scary.",
+    },
+  },
+  {
+    id: "architecture",
+    label: "Architecture nerd",
+    description: "Styles, materials, builders and details to look for.",
+    template: {
+      system: "You are an architecture enthusiast who gets excited about buildings and teaches people how to read them.",
+      prompt:
+        'Write a {{length}} spoken narration about the architecture of "{{sight}}" ({{category}}).\n' +
+        "Language: {{language}}.\n" +
+        "Cover its style, materials, architects and builders, and point out details the listener can see from where they stand.\n" +
+        "Connect it to: {{interests}}.\n" +
+        "Address the listener as {{listener}}.\n" +
+        "Explain technical terms in passing.",
+    },
+  },
+  {
+    id: "ghost",
+    label: "Ghost tour",
+    description: "Legends, crimes and eerie tales, clearly marked as such.",
+    template: {
+      system: "You are a theatrical ghost-tour guide with a taste for the macabre and a wink in your voice.",
+      prompt:
+        'Write a {{length}} spoken narration about the dark side of "{{sight}}": legends, hauntings, crimes and mysteries.\n' +
+        "Language: {{language}}.\n" +
+        "Build suspense, but make clear what is recorded history and what is legend.\n" +
+        "Touch on: {{interests}}.\n" +
+        "Address the listener as {{listener}}.",
+    },
+  },
+  {
+    id: "foodie",
+    label: "Foodie",
+    description: "Local dishes, markets and where to eat nearby.",
+    template: {
+      system: "You are a food writer who explores cities through what people eat and drink.",
+      prompt:
+        'Write a {{length}} spoken narration about "{{sight}}" ({{category}}) through the lens of food and drink.\n' +
+        "Language: {{language}}.\n" +
+        "Link the place to local dishes, markets, trades and traditions, and suggest what to try nearby.\n" +
+        "Also consider: {{interests}}.\n" +
+        "Address the listener as {{listener}}.\n" +
+        "Don't invent restaurant names.",
+    },
+  },
+];
+
+// The persona chosen in Settings with the user's edits applied
+export function getNarrationPersona(
+  settings: { narrationPersona: string; personaTemplates: Record<string, PersonaTemplate> } = useSettingsStore.getState()
+): ResolvedPersona {
+  const persona =
+    NARRATION_PERSONAS.find((p) => p.id === settings.narrationPersona) ??
+    NARRATION_PERSONAS.find((p) => p.id === DEFAULT_PERSONA_ID)!;
+  const override = settings.personaTemplates[persona.id];
+  const edited = !!override && !isSameTemplate(override, persona.template);
+  return {
+    ...persona,
+    template: edited ? override : persona.template,
+    key: edited ? `${persona.id}@${hashString(override.system + "\n" + override.prompt).slice(0, 8)}` : persona.id,
+    edited,
+  };
+}
+
+// Label of the persona a SavedContent entry was written with
+export function personaLabel(key: string): string {
+  const [id, version] = key.split("@");
+  const persona = NARRATION_PERSONAS.find((p) => p.id === id);
+  if (!persona) return id;
+  return version ? `${persona.label} (edited)` : persona.label;
+}
+
+export function isSameTemplate(a: PersonaTemplate, b: PersonaTemplate): boolean {
+  return a.system.trim() === b.system.trim() && a.prompt.trim() === b.prompt.trim();
+}
+
+export function buildNarrationMessages(template: PersonaTemplate, variables: NarrationVariables): LlmMessage[] {
+  return [
+    { role: "system", content: renderTemplate(template.system, variables) },
+    { role: "user", content: renderTemplate(template.prompt, variables) },
+  ];
+}
+
+// Fills in {{variables}}. A line that uses a variable without a value is left out, so
+// optional parts such as the interests or the listener's name sit on lines of their own.
+export function renderTemplate(template: string, variables: NarrationVariables): string {
+  const valueOf = (name: string) =>
+    (PERSONA_VARIABLES as string[]).includes(name) ? variables[name as keyof NarrationVariables].trim() : "";
+  return template
+    .split("\n")
+    .filter((line) => Array.from(line.matchAll(/\{\{\s*(\w+)\s*\}\}/g)).every((match) => !!valueOf(match[1])))
+    .map((line) => line.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => valueOf(name)))
+    .join("\n")
+    .trim();
+}
+
+export function narrationVariables(
+  sight: Sight,
+  options: { language: string; length: string; interests: string; userName: string }
+): NarrationVariables {
+  return {
+    sight: sight.name,
+    category: sight.category,
+    interests: options.interests,
+    length: options.length === "brief" ? "1-minute" : options.length === "medium" ? "2-minute" : "5-minute",
+    language: options.language === "DE" ? "German" : "English",
+    listener: options.userName,
+  };
+}
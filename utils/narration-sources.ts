@@ -0,0 +1,116 @@
+// utils/narration-sources.ts
+// Grounding for generated narrations. Before a narration is written, the material we have on
+// the sight is collected (its Wikipedia article, Google's summary, Wikidata facts and the
+// sight's own description) and numbered. The model is told to use only that material and to
+// cite it inline as [1], [2]; the numbered list is kept with the narration so it can be shown.
+import { NarrationSource, Sight } from "@/types/sight";
+import { LlmMessage } from "./llm-client";
+import { fetchExtract, fetchPlaceSummary } from "./sight-enrichment";
+
+export interface RetrievedSource extends NarrationSource {
+  text: string;   // what the model gets to read; not stored
+}
+
+// Enough of an article for a five-minute narration without flooding the prompt
+const WIKIPEDIA_MAX_CHARS = 4000;
+
+// Inline markers such as [1] or [1, 3] in narration text
+const CITATION_MARKER = /\s*\[\d+(?:\s*[,;]\s*\d+)*\]/g;
+
+export async function gatherNarrationSources(sight: Sight, language: string): Promise<RetrievedSource[]> {
+  const lang = language === "DE" ? "de" : "en";
+  const sources: Omit<RetrievedSource, "id">[] = [];
+
+  const [article, place] = await Promise.allSettled([
+    fetchArticle(sight),
+    sight.placeId ? fetchPlaceSummary(sight.placeId, lang) : undefined,
+  ]);
+  if (article.status === "rejected") console.warn("Wikipedia source failed:", article.reason);
+  if (place.status === "rejected") console.warn("Place Details source failed:", place.reason);
+
+  if (article.status === "fulfilled" && article.value) sources.push(article.value);
+
+  if (place.status === "fulfilled" && place.value?.summary) {
+    sources.push({
+      kind: "google",
+      title: `${sight.name} on Google Maps`,
+      url: place.value.url,
+      text: [place.value.summary, place.value.address && `Address: ${place.value.address}`].filter(Boolean).join("\n"),
+    });
+  }
+
+  const facts = [
+    sight.yearBuilt !== undefined && `Built: ${sight.yearBuilt}`,
+    sight.architect && `Architect: ${sight.architect}`,
+    sight.heritageStatus && `Heritage status: ${sight.heritageStatus}`,
+  ].filter(Boolean);
+  if (facts.length > 0 && sight.sourceIds?.wikidata) {
+    sources.push({
+      kind: "wikidata",
+      title: `${sight.name} on Wikidata`,
+      url: `https://www.wikidata.org/wiki/${sight.sourceIds.wikidata}`,
+      text: facts.join("\n"),
+    });
+  }
+
+  // The sight's description is the article's introduction when that was fetched above
+  const description = lang === "de" ? sight.fullDescriptionDE || sight.briefDescriptionDE : sight.fullDescription || sight.briefDescription;
+  const descriptionFromArticle = sight.provenance?.descriptions === "wikipedia" && article.status === "fulfilled" && !!article.value;
+  const details = [!descriptionFromArticle && description?.trim(), !sight.sourceIds?.wikidata && facts.join("\n")].filter(Boolean);
+  if (details.length > 0) {
+    sources.push({ kind: "sight", title: `${sight.name} (${describeOrigin(sight)})`, text: details.join("\n") });
+  }
+
+  return sources.map((source, index) => ({ ...source, id: index + 1 }));
+}
+
+// Adds the numbered sources and the rules for using them to the narration request
+export function groundNarrationMessages(messages: LlmMessage[], sources: RetrievedSource[]): LlmMessage[] {
+  if (sources.length === 0) return messages;
+  const material = sources.map((source) => `[${source.id}] ${source.title}\n${source.text}`).join("\n\n");
+  const rules =
+    "Base every fact on the numbered sources below and put the number of the source you used in square brackets " +
+    "after the sentence, like [1] or [1, 2]. Leave out anything the sources don't support rather than guess; " +
+    "dates, names and numbers in particular must come from them. Don't list the sources at the end.";
+
+  const lastUser = messages.map((message) => message.role).lastIndexOf("user");
+  return messages.map((message, index) =>
+    index === lastUser ? { ...message, content: `${message.content}\n\n${rules}\n\nSources:\n${material}` } : message
+  );
+}
+
+// The sources as stored with the narration, without the material itself
+export function toNarrationSources(sources: RetrievedSource[]): NarrationSource[] {
+  return sources.map(({ text, ...source }) => source);
+}
+
+// Narration text as it should be read aloud
+export function stripCitationMarkers(text: string): string {
+  return text.replace(CITATION_MARKER, "");
+}
+
+// Article ids look like "en:Cologne Cathedral"
+async function fetchArticle(sight: Sight): Promise<Omit<RetrievedSource, "id"> | undefined> {
+  const article = sight.sourceIds?.wikipedia;
+  if (!article) return undefined;
+  const [articleLang, ...rest] = article.split(":");
+  const title = rest.join(":");
+  const text = await fetchExtract(articleLang, title, WIKIPEDIA_MAX_CHARS);
+  if (!text) return undefined;
+  return {
+    kind: "wikipedia",
+    title: `${title} – Wikipedia`,
+    url: `https://${articleLang}.wikipedia.org/wiki/${encodeURIComponent(title.replace(/ /g, "_"))}`,
+    text,
+  };
+}
+
+function describeOrigin(sight: Sight): string {
+  switch (sight.provenance?.descriptions ?? sight.source) {
+    case "local": return "local sights file";
+    case "wikipedia": return "Wikipedia";
+    case "overpass": return "OpenStreetMap";
+    case "google": return "Google Places";
+    default: return "sight details";
+  }
+}
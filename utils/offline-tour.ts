@@ -0,0 +1,200 @@
+// utils/offline-tour.ts
+// Everything a tour needs without a connection, split into small idempotent steps:
+// narration text + audio per stop, the stop images, and map tiles covering the tour.
+// Step ids are stable, so an interrupted download can skip what it already finished.
+import * as FileSystem from "expo-file-system";
+
+import { Tour, TourStop } from "@/stores/tour-store";
+import { useSightsStore } from "@/stores/sights-store";
+import { useSettingsStore } from "@/stores/settings-store";
+import { synthesizeSpeech } from "./tts";
+import { pinCachedAudio } from "./audio-cache";
+import { hashString } from "./hash";
+
+export type OfflineStepKind = "narration" | "image" | "tile";
+
+export interface OfflineStep {
+  id: string;
+  kind: OfflineStepKind;
+  url?: string;                        // remote image of image steps
+  run: () => Promise<string | void>;   // image steps resolve with the local file
+}
+
+export interface TileCoordinate {
+  z: number;
+  x: number;
+  y: number;
+}
+
+export interface Bounds {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+const IMAGE_DIR = FileSystem.documentDirectory + "offline-images/";
+const TILE_DIR = FileSystem.documentDirectory + "map-tiles/";
+const MIN_TILE_ZOOM = 12;
+const MAX_TILE_ZOOM = 16;
+// Be gentle with the tile server: the deepest zoom levels are dropped until this fits
+// (MIN_TILE_ZOOM is always kept, so the tour has a map at all)
+const MAX_TILES = 400;
+const BOUNDS_PADDING_KM = 0.3;
+
+// For react-native-maps' <LocalTile />, which wants a plain path rather than a file:// URI
+export const OFFLINE_TILE_PATH_TEMPLATE = (TILE_DIR + "{z}/{x}/{y}.png").replace(/^file:\/\//, "");
+
+export function buildOfflineSteps(tour: Tour): OfflineStep[] {
+  const stops = uniqueStops(tour.sights);
+  const steps: OfflineStep[] = [];
+
+  for (const stop of stops) {
+    steps.push({
+      id: `narration:${stop.id}`,
+      kind: "narration",
+      run: () => prepareNarration(tour, stop),
+    });
+    if (/^https?:\/\//.test(stop.imageUrl ?? "")) {
+      steps.push({
+        id: `image:${stop.id}`,
+        kind: "image",
+        url: stop.imageUrl,
+        run: () => downloadImage(stop.imageUrl),
+      });
+    }
+  }
+
+  // Only from a tile server the user chose; it has to allow bulk downloads
+  const tiles = useSettingsStore.getState().mapTileUrl.trim() ? getTilesForBounds(getTourBounds(tour)) : [];
+  for (const tile of tiles) {
+    steps.push({
+      id: `tile:${tile.z}/${tile.x}/${tile.y}`,
+      kind: "tile",
+      run: () => downloadTile(tile),
+    });
+  }
+
+  return steps;
+}
+
+export function getTourBounds(tour: Tour): Bounds {
+  const points = [...tour.sights, ...(tour.start ? [tour.start] : []), ...(tour.end ? [tour.end] : [])];
+  const latitudes = points.map((p) => p.latitude);
+  const longitudes = points.map((p) => p.longitude);
+
+  const minLatitude = Math.min(...latitudes);
+  const maxLatitude = Math.max(...latitudes);
+  const latPadding = BOUNDS_PADDING_KM / 111;
+  const lngPadding = BOUNDS_PADDING_KM / (111 * Math.max(Math.cos(((minLatitude + maxLatitude) / 2) * (Math.PI / 180)), 0.01));
+
+  return {
+    minLatitude: minLatitude - latPadding,
+    maxLatitude: maxLatitude + latPadding,
+    minLongitude: Math.min(...longitudes) - lngPadding,
+    maxLongitude: Math.max(...longitudes) + lngPadding,
+  };
+}
+
+// Slippy-map tiles covering `bounds`, from MIN_TILE_ZOOM down to the deepest zoom that fits MAX_TILES.
+// The MIN_TILE_ZOOM level is kept even when it alone exceeds MAX_TILES.
+export function getTilesForBounds(bounds: Bounds): TileCoordinate[] {
+  if (![bounds.minLatitude, bounds.maxLatitude, bounds.minLongitude, bounds.maxLongitude].every(Number.isFinite)) {
+    return [];
+  }
+
+  const tiles: TileCoordinate[] = [];
+  for (let z = MIN_TILE_ZOOM; z <= MAX_TILE_ZOOM; z++) {
+    const minX = longitudeToTileX(bounds.minLongitude, z);
+    const maxX = longitudeToTileX(bounds.maxLongitude, z);
+    const minY = latitudeToTileY(bounds.maxLatitude, z);
+    const maxY = latitudeToTileY(bounds.minLatitude, z);
+
+    const level: TileCoordinate[] = [];
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) level.push({ z, x, y });
+    }
+    if (z > MIN_TILE_ZOOM && tiles.length + level.length > MAX_TILES) break;
+    tiles.push(...level);
+  }
+  return tiles;
+}
+
+export function getOfflineImagePath(url: string): string {
+  return IMAGE_DIR + hashString(url) + ".jpg";
+}
+
+export async function deleteOfflineImages(localUris: string[]) {
+  await Promise.all(
+    localUris.map((uri) => FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {}))
+  );
+}
+
+/* -------------------------------- Helpers -------------------------------- */
+
+function uniqueStops(stops: TourStop[]): TourStop[] {
+  const seen = new Set<string>();
+  return stops.filter((stop) => {
+    const id = stop.id.toString();
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+// Generate (or reuse) the stop's narration and make sure its audio is cached and pinned
+async function prepareNarration(tour: Tour, stop: TourStop) {
+  const { language, audioLength } = useSettingsStore.getState();
+  const sightsStore = useSightsStore.getState();
+
+  const text = await sightsStore.generateSightContent(stop, language, tour.detailLevel ?? audioLength);
+  const saved = sightsStore.findSavedContentByText(stop.id, text);
+  const speech = await synthesizeSpeech(text, saved?.audioKey);
+  // Without an OpenAI key the system voice reads the text, which works offline as well
+  if (!speech) return;
+
+  await pinCachedAudio(speech.audioKey, tour.id);
+  if (saved && saved.audioKey !== speech.audioKey) {
+    sightsStore.linkSavedContentAudio(stop.id, saved.id, speech.audioKey);
+  }
+}
+
+async function downloadImage(url: string): Promise<string> {
+  const path = getOfflineImagePath(url);
+  const info = await FileSystem.getInfoAsync(path);
+  if (info.exists) return path;
+
+  await FileSystem.makeDirectoryAsync(IMAGE_DIR, { intermediates: true }).catch(() => {});
+  await downloadFile(url, path);
+  return path;
+}
+
+async function downloadTile({ z, x, y }: TileCoordinate) {
+  const path = TILE_DIR + `${z}/${x}/${y}.png`;
+  const info = await FileSystem.getInfoAsync(path);
+  if (info.exists) return;
+
+  const template = useSettingsStore.getState().mapTileUrl.trim();
+  const url = template.replace("{z}", String(z)).replace("{x}", String(x)).replace("{y}", String(y));
+  await FileSystem.makeDirectoryAsync(TILE_DIR + `${z}/${x}`, { intermediates: true }).catch(() => {});
+  await downloadFile(url, path);
+}
+
+async function downloadFile(url: string, path: string) {
+  const result = await FileSystem.downloadAsync(url, path, {
+    headers: { "User-Agent": "SightExplorerVoiceGuide/1.0" },
+  });
+  if (result.status < 200 || result.status >= 300) {
+    await FileSystem.deleteAsync(path, { idempotent: true }).catch(() => {});
+    throw new Error(`HTTP ${result.status} for ${url}`);
+  }
+}
+
+function longitudeToTileX(longitude: number, zoom: number): number {
+  return Math.floor(((longitude + 180) / 360) * 2 ** zoom);
+}
+
+function latitudeToTileY(latitude: number, zoom: number): number {
+  const rad = (latitude * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** zoom);
+}
@@ -0,0 +1,227 @@
+// utils/opening-hours.ts
+// Weekly opening hours: parsing Google Place Details and OpenStreetMap `opening_hours`,
+// and answering "is it open then?" for concrete dates in the device's time zone.
+import { OpeningHours, OpeningPeriod } from "@/types/sight";
+
+export type VisitStatus = "open" | "closed" | "closes-early";
+
+export interface PlannedVisit {
+  arrival: Date;        // after waiting for the doors to open, if that was worth it
+  departure: Date;
+  waitMinutes: number;
+  status?: VisitStatus; // undefined when the hours are unknown
+}
+
+const DAY_MINUTES = 24 * 60;
+const WEEK_MINUTES = 7 * DAY_MINUTES;
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const OSM_DAYS = ["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"];
+
+/* --------------------------------- Parsing --------------------------------- */
+
+// Place Details `opening_hours`, with times like "0930"
+export function parseGoogleOpeningHours(raw: any): OpeningHours | undefined {
+  if (!Array.isArray(raw?.periods) || raw.periods.length === 0) return undefined;
+
+  const toTime = (point: any) => ({
+    day: point.day,
+    time: parseInt(point.time.slice(0, 2), 10) * 60 + parseInt(point.time.slice(2), 10),
+  });
+  const periods: OpeningPeriod[] = raw.periods
+    .filter((period: any) => period.open?.time)
+    .map((period: any) => ({
+      open: toTime(period.open),
+      close: period.close?.time ? toTime(period.close) : undefined,
+    }));
+
+  return { periods, weekdayText: raw.weekday_text };
+}
+
+// The common subset of OSM's opening_hours syntax: "24/7", and rules like
+// "Mo-Fr 09:00-18:00; Sa,Su 10:00-12:00,13:00-16:00; PH off". Later rules replace the hours of
+// the days they name. Anything more elaborate (months, sunrise, week numbers) counts as unknown.
+export function parseOsmOpeningHours(spec?: string): OpeningHours | undefined {
+  const text = spec?.trim();
+  if (!text) return undefined;
+  if (text === "24/7") return { periods: [{ open: { day: 0, time: 0 } }] };
+
+  const hoursByDay: [number, number][][] = Array.from({ length: 7 }, () => []);
+  for (const rule of text.split(";").map((r) => r.trim()).filter(Boolean)) {
+    // Public holidays can't be known here; ignore rules only about them
+    if (/^PH\b/.test(rule)) continue;
+
+    const match = rule.match(/^((?:(?:Mo|Tu|We|Th|Fr|Sa|Su)(?:-(?:Mo|Tu|We|Th|Fr|Sa|Su))?,?)+)?\s*(.*)$/);
+    if (!match) return undefined;
+    const days = match[1] ? parseOsmDays(match[1]) : [0, 1, 2, 3, 4, 5, 6];
+    const times = match[2].trim();
+
+    let ranges: [number, number][] = [];
+    if (times !== "off" && times !== "closed") {
+      for (const range of times.split(",")) {
+        const parsed = range.trim().match(/^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/);
+        if (!parsed) return undefined;
+        const from = parseInt(parsed[1], 10) * 60 + parseInt(parsed[2], 10);
+        let to = parseInt(parsed[3], 10) * 60 + parseInt(parsed[4], 10);
+        if (to <= from) to += DAY_MINUTES;   // past midnight
+        ranges.push([from, to]);
+      }
+    }
+    for (const day of days) hoursByDay[day] = ranges;
+  }
+
+  const periods: OpeningPeriod[] = [];
+  hoursByDay.forEach((ranges, day) => {
+    for (const [from, to] of ranges) {
+      periods.push({
+        open: { day, time: from },
+        close: { day: (day + Math.floor(to / DAY_MINUTES)) % 7, time: to % DAY_MINUTES },
+      });
+    }
+  });
+  return { periods };
+}
+
+/* -------------------------------- Evaluation ------------------------------- */
+
+export function isOpenAt(hours: OpeningHours, date: Date): boolean {
+  return !!findInterval(hours, date);
+}
+
+// Whether the place is open at any moment between `from` and `to`
+export function isOpenBetween(hours: OpeningHours, from: Date, to: Date): boolean {
+  if (isOpenAt(hours, from)) return true;
+  const next = nextOpening(hours, from);
+  return !!next && next < to;
+}
+
+export function nextOpening(hours: OpeningHours, after: Date): Date | undefined {
+  const weekStart = startOfWeek(after);
+  const minute = minutesSince(weekStart, after);
+  const starts = weeklyIntervals(hours)
+    .flatMap(([start]) => [start, start + WEEK_MINUTES])
+    .filter((start) => start >= minute)
+    .sort((a, b) => a - b);
+  return starts.length > 0 ? addMinutes(weekStart, starts[0]) : undefined;
+}
+
+// When the current opening ends, if open at `date`
+export function closingTime(hours: OpeningHours, date: Date): Date | undefined {
+  const interval = findInterval(hours, date);
+  return interval && interval.end < Infinity ? interval.endDate : undefined;
+}
+
+// Arrive, wait up to `maxWaitMinutes` for the place to open, stay `stayMinutes`
+export function planVisit(
+  hours: OpeningHours | undefined,
+  arrival: Date,
+  stayMinutes: number,
+  maxWaitMinutes: number
+): PlannedVisit {
+  const visit = (at: Date, waitMinutes: number, status?: VisitStatus): PlannedVisit => ({
+    arrival: at,
+    departure: addMinutes(at, stayMinutes),
+    waitMinutes,
+    status,
+  });
+  if (!hours) return visit(arrival, 0);
+
+  let at = arrival;
+  let waitMinutes = 0;
+  if (!isOpenAt(hours, arrival)) {
+    const opens = nextOpening(hours, arrival);
+    const wait = opens ? minutesSince(arrival, opens) : Infinity;
+    if (wait > maxWaitMinutes) return visit(arrival, 0, "closed");
+    at = opens!;
+    waitMinutes = Math.ceil(wait);
+  }
+
+  const closes = closingTime(hours, at);
+  const departure = addMinutes(at, stayMinutes);
+  return visit(at, waitMinutes, closes && closes < departure ? "closes-early" : "open");
+}
+
+// One line per weekday, Monday first
+export function describeOpeningHours(hours: OpeningHours): string[] {
+  if (hours.weekdayText?.length) return hours.weekdayText;
+
+  const intervals = weeklyIntervals(hours);
+  const alwaysOpen = intervals.some(([start, end]) => end - start >= WEEK_MINUTES);
+  return [1, 2, 3, 4, 5, 6, 0].map((day) => {
+    if (alwaysOpen) return `${WEEKDAY_NAMES[day]}: Open 24 hours`;
+    const dayStart = day * DAY_MINUTES;
+    const ranges = intervals
+      .filter(([start]) => start >= dayStart && start < dayStart + DAY_MINUTES)
+      .map(([start, end]) => `${formatMinutes(start - dayStart)}–${formatMinutes(end - dayStart)}`);
+    return `${WEEKDAY_NAMES[day]}: ${ranges.length > 0 ? ranges.join(", ") : "Closed"}`;
+  });
+}
+
+export function formatClockTime(date: Date | string): string {
+  return new Date(date).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+/* --------------------------------- Helpers --------------------------------- */
+
+// [start, end) in minutes since Sunday 00:00; an interval may run past the end of the week
+function weeklyIntervals(hours: OpeningHours): [number, number][] {
+  return hours.periods.map(({ open, close }) => {
+    const start = open.day * DAY_MINUTES + open.time;
+    if (!close) return [start, start + WEEK_MINUTES];
+    let end = close.day * DAY_MINUTES + close.time;
+    if (end <= start) end += WEEK_MINUTES;
+    return [start, end];
+  });
+}
+
+function findInterval(hours: OpeningHours, date: Date) {
+  const weekStart = startOfWeek(date);
+  const minute = minutesSince(weekStart, date);
+  for (const [start, end] of weeklyIntervals(hours)) {
+    // Intervals from late last week may still be running
+    for (const shift of [0, -WEEK_MINUTES]) {
+      if (minute >= start + shift && minute < end + shift) {
+        const open24h = end - start >= WEEK_MINUTES;
+        return { end: open24h ? Infinity : end + shift, endDate: addMinutes(weekStart, end + shift) };
+      }
+    }
+  }
+  return undefined;
+}
+
+function parseOsmDays(spec: string): number[] {
+  const days = new Set<number>();
+  for (const part of spec.split(",").filter(Boolean)) {
+    const [from, to] = part.split("-").map((d) => OSM_DAYS.indexOf(d));
+    if (to === undefined) {
+      days.add(from);
+      continue;
+    }
+    for (let day = from; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === to) break;
+    }
+  }
+  return [...days];
+}
+
+function startOfWeek(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - start.getDay());
+  return start;
+}
+
+function minutesSince(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / 60000;
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60000);
+}
+
+function formatMinutes(minutes: number): string {
+  const normalized = ((minutes % DAY_MINUTES) + DAY_MINUTES) % DAY_MINUTES;
+  const h = Math.floor(normalized / 60);
+  const m = Math.round(normalized % 60);
+  return `${h.toString().padStart(2, "0")}:${m.toString().padStart(2, "0")}`;
+}
@@ -0,0 +1,302 @@
+// utils/persisted-schema.ts
+// Shape of what the sights and tour stores keep in AsyncStorage. JSON loses Dates and old
+// app versions wrote Google's raw field names onto sights, so everything read back goes
+// through `migrate` (once per storage version) and the parsers here (on every rehydrate).
+// Records that can't be made valid are dropped instead of crashing the screens using them.
+import { FavoriteSight, NarrationSource, OpeningHours, OpeningPeriod, SavedContent, Sight, SightTier } from "@/types/sight";
+import type { Tour, TourDay, TourLeg, TourPoint, TourStop } from "@/stores/tour-store";
+import type { SightTile } from "./sight-repository";
+import { PLACEHOLDER_IMAGE } from "./sight-merge";
+
+// 1: typed `userRatingsTotal` / `openNow` / `vicinity` instead of Google's names
+// 2: favorites keep a snapshot of the sight, a folder and a note instead of only its id
+export const SIGHTS_STORAGE_VERSION = 2;
+// 1: stops carry the typed sight fields as well
+export const TOUR_STORAGE_VERSION = 1;
+
+export interface PersistedSightsState {
+  favorites: FavoriteSight[];
+  radius?: number;
+  tiles: Record<string, SightTile>;
+  allSights: Sight[];
+}
+
+export interface PersistedTourState {
+  savedTours: Tour[];
+  tourDistance?: number;
+}
+
+/* -------------------------------- Migrations ------------------------------- */
+
+export function migrateSightsState(persisted: unknown, version: number): PersistedSightsState {
+  const state: Record<string, unknown> = isRecord(persisted) ? { ...persisted } : {};
+  if (version < 1 && Array.isArray(state.allSights)) {
+    state.allSights = state.allSights.map(renameGoogleFields);
+  }
+  if (version < 2 && Array.isArray(state.favorites)) {
+    // Snapshots of sights that are still cached. The cache only held the last fetched area,
+    // so the others stay id-only until the favorites screen looks them up
+    const cached = Array.isArray(state.allSights) ? state.allSights : [];
+    state.favorites = state.favorites.map((id: unknown) => ({
+      sightId: String(id),
+      sight: cached.find((s: unknown) => isRecord(s) && String(s.id) === String(id)),
+      addedAt: Date.now(),
+    }));
+  }
+  return parseSightsState(state);
+}
+
+export function migrateTourState(persisted: unknown, version: number): PersistedTourState {
+  const state: Record<string, unknown> = isRecord(persisted) ? { ...persisted } : {};
+  if (version < 1 && Array.isArray(state.savedTours)) {
+    state.savedTours = state.savedTours.map((tour: unknown) => {
+      if (!isRecord(tour)) return tour;
+      const renameStops = (stops: unknown) => (Array.isArray(stops) ? stops.map(renameGoogleFields) : stops);
+      return {
+        ...tour,
+        sights: renameStops(tour.sights),
+        days: Array.isArray(tour.days)
+          ? tour.days.map((day) => (isRecord(day) ? { ...day, sights: renameStops(day.sights) } : day))
+          : tour.days,
+      };
+    });
+  }
+  return parseTourState(state);
+}
+
+// Before user-facing fields were typed, the nearby search result was stored as Google named it
+function renameGoogleFields(raw: unknown): unknown {
+  if (!isRecord(raw)) return raw;
+  const { user_ratings_total, open_now, ...rest } = raw;
+  return {
+    ...rest,
+    userRatingsTotal: rest.userRatingsTotal ?? user_ratings_total,
+    openNow: rest.openNow ?? open_now,
+  };
+}
+
+/* ---------------------------------- Stores --------------------------------- */
+
+export function parseSightsState(raw: unknown): PersistedSightsState {
+  const state = isRecord(raw) ? raw : {};
+
+  const tiles: Record<string, SightTile> = {};
+  if (isRecord(state.tiles)) {
+    for (const [hash, tile] of Object.entries(state.tiles)) {
+      if (!isRecord(tile) || !Array.isArray(tile.sightIds)) continue;
+      tiles[hash] = {
+        hash,
+        fetchedAt: finiteNumber(tile.fetchedAt) ?? 0,
+        sightIds: tile.sightIds.map(String),
+      };
+    }
+  }
+
+  return {
+    favorites: parseList(state.favorites, parseFavorite),
+    radius: finiteNumber(state.radius),
+    tiles,
+    allSights: parseList(state.allSights, parseSight),
+  };
+}
+
+export function parseTourState(raw: unknown): PersistedTourState {
+  const state = isRecord(raw) ? raw : {};
+  return {
+    savedTours: parseList(state.savedTours, parseTour),
+    tourDistance: finiteNumber(state.tourDistance),
+  };
+}
+
+/* ---------------------------------- Sights --------------------------------- */
+
+export function parseSight(raw: unknown): Sight | undefined {
+  if (!isRecord(raw)) return undefined;
+  const latitude = finiteNumber(raw.latitude);
+  const longitude = finiteNumber(raw.longitude);
+  if ((typeof raw.id !== "string" && typeof raw.id !== "number") || typeof raw.name !== "string") return undefined;
+  if (latitude === undefined || longitude === undefined) return undefined;
+
+  const briefDescription = stringOr(raw.briefDescription, "");
+  const fullDescription = stringOr(raw.fullDescription, briefDescription);
+  return {
+    ...(raw as Partial<Sight>),
+    id: raw.id,
+    name: raw.name,
+    category: stringOr(raw.category, "Attraction"),
+    latitude,
+    longitude,
+    distance: finiteNumber(raw.distance),
+    imageUrl: stringOr(raw.imageUrl, PLACEHOLDER_IMAGE),
+    yearBuilt: finiteNumber(raw.yearBuilt),
+    briefDescription,
+    fullDescription,
+    briefDescriptionDE: stringOr(raw.briefDescriptionDE, briefDescription),
+    fullDescriptionDE: stringOr(raw.fullDescriptionDE, fullDescription),
+    rating: finiteNumber(raw.rating),
+    userRatingsTotal: finiteNumber(raw.userRatingsTotal),
+    tier: raw.tier === 1 || raw.tier === 3 ? raw.tier : (2 as SightTier),
+    openingHours: parseOpeningHours(raw.openingHours),
+    openNow: typeof raw.openNow === "boolean" ? raw.openNow : undefined,
+    enrichedAt: finiteNumber(raw.enrichedAt),
+    savedContent: Array.isArray(raw.savedContent) ? parseList(raw.savedContent, parseSavedContent) : undefined,
+  };
+}
+
+// A favorite without a usable snapshot is kept by id; the favorites screen looks it up again
+function parseFavorite(raw: unknown): FavoriteSight | undefined {
+  if (!isRecord(raw) || typeof raw.sightId !== "string") return undefined;
+  return {
+    sightId: raw.sightId,
+    sight: parseSight(raw.sight),
+    folder: typeof raw.folder === "string" && raw.folder ? raw.folder : undefined,
+    note: typeof raw.note === "string" && raw.note ? raw.note : undefined,
+    addedAt: finiteNumber(raw.addedAt) ?? 0,
+  };
+}
+
+function parseSavedContent(raw: unknown): SavedContent | undefined {
+  if (!isRecord(raw) || typeof raw.id !== "string" || typeof raw.content !== "string") return undefined;
+  return {
+    ...(raw as Partial<SavedContent>),
+    id: raw.id,
+    language: stringOr(raw.language, "EN"),
+    length: stringOr(raw.length, "medium"),
+    interests: stringOr(raw.interests, ""),
+    // Narrations from before personas were written by the tour guide
+    persona: stringOr(raw.persona, "guide"),
+    content: raw.content,
+    createdAt: parseDate(raw.createdAt) ?? new Date(0),
+    sources: Array.isArray(raw.sources) ? parseList(raw.sources, parseNarrationSource) : undefined,
+  };
+}
+
+const NARRATION_SOURCE_KINDS: NarrationSource["kind"][] = ["wikipedia", "wikidata", "google", "sight"];
+
+function parseNarrationSource(raw: unknown): NarrationSource | undefined {
+  if (!isRecord(raw) || typeof raw.title !== "string") return undefined;
+  const id = finiteNumber(raw.id);
+  if (id === undefined) return undefined;
+  return {
+    id,
+    title: raw.title,
+    kind: NARRATION_SOURCE_KINDS.find((kind) => kind === raw.kind) ?? "sight",
+    url: typeof raw.url === "string" ? raw.url : undefined,
+  };
+}
+
+export function parseOpeningHours(raw: unknown): OpeningHours | undefined {
+  if (!isRecord(raw) || !Array.isArray(raw.periods)) return undefined;
+  const isTime = (time: unknown) => isRecord(time) && finiteNumber(time.day) !== undefined && finiteNumber(time.time) !== undefined;
+  const periods = raw.periods.filter(
+    (period: unknown): period is OpeningPeriod =>
+      isRecord(period) && isTime(period.open) && (period.close === undefined || isTime(period.close))
+  );
+  if (periods.length === 0) return undefined;
+  return {
+    periods,
+    weekdayText: Array.isArray(raw.weekdayText)
+      ? raw.weekdayText.filter((line: unknown): line is string => typeof line === "string")
+      : undefined,
+  };
+}
+
+/* ---------------------------------- Tours ---------------------------------- */
+
+export function parseTour(raw: unknown): Tour | undefined {
+  if (!isRecord(raw) || typeof raw.id !== "string") return undefined;
+  const sights = parseList(raw.sights, parseTourStop);
+  if (sights.length === 0) return undefined;
+
+  const days = Array.isArray(raw.days) ? parseList(raw.days, parseTourDay) : undefined;
+  return {
+    ...(raw as Partial<Tour>),
+    id: raw.id,
+    name: stringOr(raw.name, `${sights.length}-Stop Tour`),
+    sights,
+    days: days && days.length > 0 ? days : undefined,
+    start: parsePoint(raw.start),
+    end: parsePoint(raw.end),
+    startsAt: parseDate(raw.startsAt),
+    totalDistance: finiteNumber(raw.totalDistance) ?? 0,
+    estimatedDuration: finiteNumber(raw.estimatedDuration) ?? 0,
+    createdAt: parseDate(raw.createdAt) ?? new Date(0),
+  };
+}
+
+function parseTourDay(raw: unknown): TourDay | undefined {
+  if (!isRecord(raw)) return undefined;
+  const sights = parseList(raw.sights, parseTourStop);
+  if (sights.length === 0) return undefined;
+  return {
+    ...(raw as Partial<TourDay>),
+    day: finiteNumber(raw.day) ?? 1,
+    sights,
+    startLeg: parseLeg(raw.startLeg),
+    endLeg: parseLeg(raw.endLeg),
+    totalDistance: finiteNumber(raw.totalDistance) ?? 0,
+    estimatedDuration: finiteNumber(raw.estimatedDuration) ?? 0,
+    startsAt: parseDate(raw.startsAt),
+    endsAt: parseDate(raw.endsAt),
+  };
+}
+
+function parseTourStop(raw: unknown): TourStop | undefined {
+  const sight = parseSight(raw);
+  if (!sight || !isRecord(raw)) return undefined;
+  const order = finiteNumber(raw.order);
+  if (order === undefined) return undefined;
+  return {
+    ...(raw as Partial<TourStop>),
+    ...sight,
+    order,
+    arrivedAt: parseDate(raw.arrivedAt),
+    departedAt: parseDate(raw.departedAt),
+    plannedArrival: parseDate(raw.plannedArrival),
+    plannedDeparture: parseDate(raw.plannedDeparture),
+    dwellMinutes: finiteNumber(raw.dwellMinutes),
+    rationale: typeof raw.rationale === "string" && raw.rationale ? raw.rationale : undefined,
+  };
+}
+
+function parseLeg(raw: unknown): TourLeg | undefined {
+  if (!isRecord(raw)) return undefined;
+  const distance = finiteNumber(raw.distance);
+  const walkingTime = finiteNumber(raw.walkingTime);
+  if (distance === undefined || walkingTime === undefined) return undefined;
+  return { ...(raw as Partial<TourLeg>), distance, walkingTime };
+}
+
+function parsePoint(raw: unknown): TourPoint | undefined {
+  if (!isRecord(raw)) return undefined;
+  const latitude = finiteNumber(raw.latitude);
+  const longitude = finiteNumber(raw.longitude);
+  if (latitude === undefined || longitude === undefined) return undefined;
+  return { name: stringOr(raw.name, ""), latitude, longitude };
+}
+
+/* --------------------------------- Helpers --------------------------------- */
+
+function parseList<T>(raw: unknown, parse: (item: unknown) => T | undefined): T[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(parse).filter((item): item is T => item !== undefined);
+}
+
+// JSON turns Dates into ISO strings
+function parseDate(raw: unknown): Date | undefined {
+  if (!(raw instanceof Date) && typeof raw !== "string" && typeof raw !== "number") return undefined;
+  const date = new Date(raw);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function finiteNumber(raw: unknown): number | undefined {
+  return typeof raw === "number" && isFinite(raw) ? raw : undefined;
+}
+
+function stringOr(raw: unknown, fallback: string): string {
+  return typeof raw === "string" ? raw : fallback;
+}
+
+function isRecord(raw: unknown): raw is Record<string, unknown> {
+  return typeof raw === "object" && raw !== null && !Array.isArray(raw);
+}
@@ -0,0 +1,228 @@
+// utils/routing.ts
+import { useSettingsStore, TransportMode, RoutingProviderType } from "@/stores/settings-store";
+import { LatLng, distanceBetween } from "./geo";
+
+export type RoutingMode = Exclude<TransportMode, "mix">;
+
+export interface RouteLeg {
+  distance: number;   // km
+  duration: number;   // minutes
+  geometry: LatLng[]; // path from origin to destination
+}
+
+export interface RoutingProvider {
+  name: string;
+  route: (from: LatLng, to: LatLng, mode: RoutingMode) => Promise<RouteLeg>;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Helper function to get transport time multiplier (minutes per km)
+export function getTransportTimeMultiplier(transportMode: TransportMode): number {
+  switch (transportMode) {
+    case "walk": return 12; // 12 minutes per km walking
+    case "taxi": return 3; // 3 minutes per km by taxi
+    case "public": return 6; // 6 minutes per km by public transport
+    case "mix": return 8; // 8 minutes per km mixed transport
+    default: return 12;
+  }
+}
+
+/* -------------------------------- Providers -------------------------------- */
+
+// Straight line with a flat minutes-per-km estimate; works offline and never fails
+export function createHaversineProvider(): RoutingProvider {
+  return {
+    name: "haversine",
+    route: async (from, to, mode) => {
+      const distance = distanceBetween(from, to);
+      return {
+        distance,
+        duration: distance * getTransportTimeMultiplier(mode),
+        geometry: [from, to],
+      };
+    },
+  };
+}
+
+export function createGoogleDirectionsProvider(apiKey: string): RoutingProvider {
+  const googleModes: Record<RoutingMode, string> = {
+    walk: "walking",
+    taxi: "driving",
+    public: "transit",
+  };
+
+  return {
+    name: "google",
+    route: async (from, to, mode) => {
+      const url =
+        `https://maps.googleapis.com/maps/api/directions/json` +
+        `?origin=${from.latitude},${from.longitude}` +
+        `&destination=${to.latitude},${to.longitude}` +
+        `&mode=${googleModes[mode]}` +
+        `&key=${apiKey}`;
+
+      const data = await fetchJson(url);
+      if (data.status !== "OK") {
+        throw new Error(`Google Directions API error: ${data.status} - ${data.error_message || "Unknown"}`);
+      }
+
+      const route = data.routes[0];
+      const legs: any[] = route.legs ?? [];
+      return {
+        distance: legs.reduce((sum, leg) => sum + (leg.distance?.value ?? 0), 0) / 1000,
+        duration: legs.reduce((sum, leg) => sum + (leg.duration?.value ?? 0), 0) / 60,
+        geometry: decodePolyline(route.overview_polyline?.points ?? ""),
+      };
+    },
+  };
+}
+
+// OSRM `/route/v1` API. Valhalla answers the same shape when asked for `format: "osrm"`,
+// so a locally hosted Valhalla works too. Neither knows timetables, so transit legs throw
+// and end up with the fallback estimate.
+export function createOsrmProvider(baseUrl: string, flavor: "osrm" | "valhalla" = "osrm"): RoutingProvider {
+  const root = baseUrl.replace(/\/+$/, "");
+  const osrmProfiles: Partial<Record<RoutingMode, string>> = { walk: "foot", taxi: "driving" };
+  const valhallaCostings: Partial<Record<RoutingMode, string>> = { walk: "pedestrian", taxi: "auto" };
+
+  return {
+    name: flavor,
+    route: async (from, to, mode) => {
+      let data: any;
+
+      if (flavor === "valhalla") {
+        const costing = valhallaCostings[mode];
+        if (!costing) throw new Error(`Valhalla has no profile for ${mode}`);
+        data = await fetchJson(`${root}/route`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            locations: [
+              { lat: from.latitude, lon: from.longitude },
+              { lat: to.latitude, lon: to.longitude },
+            ],
+            costing,
+            format: "osrm",
+            shape_format: "geojson",
+          }),
+        });
+      } else {
+        const profile = osrmProfiles[mode];
+        if (!profile) throw new Error(`OSRM has no profile for ${mode}`);
+        data = await fetchJson(
+          `${root}/route/v1/${profile}/${from.longitude},${from.latitude};${to.longitude},${to.latitude}` +
+          `?overview=full&geometries=geojson`
+        );
+      }
+
+      if (data.code !== "Ok" || !data.routes?.length) {
+        throw new Error(`${flavor} routing error: ${data.code} - ${data.message || "Unknown"}`);
+      }
+
+      const route = data.routes[0];
+      const coordinates: [number, number][] = route.geometry?.coordinates ?? [];
+      return {
+        distance: route.distance / 1000,
+        duration: route.duration / 60,
+        geometry: coordinates.map(([longitude, latitude]) => ({ latitude, longitude })),
+      };
+    },
+  };
+}
+
+// Try `primary`, and answer with `fallback` whenever it fails
+export function withFallback(primary: RoutingProvider, fallback: RoutingProvider): RoutingProvider {
+  return {
+    name: primary.name,
+    route: async (from, to, mode) => {
+      try {
+        return await primary.route(from, to, mode);
+      } catch (error) {
+        console.warn(`Routing via ${primary.name} failed, using ${fallback.name}:`, error);
+        return fallback.route(from, to, mode);
+      }
+    },
+  };
+}
+
+// Provider configured in Settings, with Haversine as the fallback
+export function getRoutingProvider(): RoutingProvider {
+  const { routingProvider, routingServerUrl, googleMapsApiKey } = useSettingsStore.getState();
+  const haversine = createHaversineProvider();
+  const primary = createProvider(routingProvider, routingServerUrl, googleMapsApiKey);
+  return primary ? withFallback(primary, haversine) : haversine;
+}
+
+function createProvider(type: RoutingProviderType, serverUrl: string, googleMapsApiKey: string): RoutingProvider | null {
+  switch (type) {
+    case "google": return googleMapsApiKey ? createGoogleDirectionsProvider(googleMapsApiKey) : null;
+    case "osrm": return serverUrl ? createOsrmProvider(serverUrl, "osrm") : null;
+    case "valhalla": return serverUrl ? createOsrmProvider(serverUrl, "valhalla") : null;
+    default: return null;
+  }
+}
+
+/* --------------------------------- Helpers --------------------------------- */
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const res = await fetch(url, { ...init, signal: controller.signal });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return await res.json();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Google encoded polyline algorithm
+export function decodePolyline(encoded: string): LatLng[] {
+  const points: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  while (index < encoded.length) {
+    for (const axis of [0, 1]) {
+      let result = 0;
+      let shift = 0;
+      let byte: number;
+      do {
+        byte = encoded.charCodeAt(index++) - 63;
+        result |= (byte & 0x1f) << shift;
+        shift += 5;
+      } while (byte >= 0x20);
+      const delta = result & 1 ? ~(result >> 1) : result >> 1;
+      if (axis === 0) lat += delta;
+      else lng += delta;
+    }
+    points.push({ latitude: lat / 1e5, longitude: lng / 1e5 });
+  }
+
+  return points;
+}
+
+export function encodePolyline(points: LatLng[]): string {
+  let encoded = "";
+  let lat = 0;
+  let lng = 0;
+
+  for (const point of points) {
+    const nextLat = Math.round(point.latitude * 1e5);
+    const nextLng = Math.round(point.longitude * 1e5);
+    for (const delta of [nextLat - lat, nextLng - lng]) {
+      let value = delta < 0 ? ~(delta << 1) : delta << 1;
+      while (value >= 0x20) {
+        encoded += String.fromCharCode((0x20 | (value & 0x1f)) + 63);
+        value >>= 5;
+      }
+      encoded += String.fromCharCode(value + 63);
+    }
+    lat = nextLat;
+    lng = nextLng;
+  }
+
+  return encoded;
+}
@@ -0,0 +1,257 @@
+// utils/sight-enrichment.ts
+// Details the nearby search does not return, looked up when a sight is opened:
+// the Wikipedia introduction (EN and DE), Wikidata facts (inception, architect, heritage
+// status) and Google Place Details (opening hours, website, phone). Each source is optional;
+// whatever answers is kept, and the result is stored on the sight so this runs rarely.
+import { useSettingsStore } from "@/stores/settings-store";
+import { OpeningHours, Sight, SightProvenance, SightSourceIds } from "@/types/sight";
+import { nameSimilarity } from "./sight-merge";
+import { parseGoogleOpeningHours } from "./opening-hours";
+
+export type SightEnrichment = Partial<
+  Pick<
+    Sight,
+    | "briefDescription"
+    | "fullDescription"
+    | "briefDescriptionDE"
+    | "fullDescriptionDE"
+    | "yearBuilt"
+    | "architect"
+    | "heritageStatus"
+    | "website"
+    | "phoneNumber"
+    | "openingHours"
+  >
+> & {
+  sourceIds: SightSourceIds;
+  provenance: SightProvenance;
+  enrichedAt?: number;   // only set when every lookup answered, so failures are retried
+};
+
+export const ENRICHMENT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const REQUEST_TIMEOUT_MS = 15000;
+const BRIEF_DESCRIPTION_MAX_CHARS = 300;
+// How far a Wikipedia article's coordinates may be from a sight that has no Wikipedia link yet
+const ARTICLE_SEARCH_RADIUS_M = 250;
+const MIN_ARTICLE_NAME_SIMILARITY = 0.75;
+
+const WIKIDATA_INCEPTION = "P571";
+const WIKIDATA_ARCHITECT = "P84";
+const WIKIDATA_HERITAGE = "P1435";
+
+export function needsEnrichment(sight: Sight, now = Date.now()): boolean {
+  return !sight.enrichedAt || now - sight.enrichedAt > ENRICHMENT_TTL_MS;
+}
+
+export async function fetchSightEnrichment(sight: Sight): Promise<SightEnrichment> {
+  const { googleMapsApiKey, language } = useSettingsStore.getState();
+  const lang = language === "DE" ? "de" : "en";
+  const result: SightEnrichment = { sourceIds: { ...sight.sourceIds }, provenance: {} };
+
+  const [wiki, details] = await Promise.allSettled([
+    enrichFromWikimedia(sight, lang, result),
+    sight.placeId && googleMapsApiKey ? fetchPlaceDetails(sight.placeId, googleMapsApiKey, lang) : null,
+  ]);
+  if (wiki.status === "rejected") console.warn("Wikipedia enrichment failed:", wiki.reason);
+  if (details.status === "rejected") console.warn("Place Details enrichment failed:", details.reason);
+  else if (details.value) {
+    const { provenance, ...fields } = details.value;
+    Object.assign(result, fields);
+    Object.assign(result.provenance, provenance);
+  }
+
+  if (wiki.status === "fulfilled" && details.status === "fulfilled") result.enrichedAt = Date.now();
+  return result;
+}
+
+/* -------------------------------- Wikimedia -------------------------------- */
+
+async function enrichFromWikimedia(sight: Sight, lang: string, result: SightEnrichment) {
+  let wikidataId = sight.sourceIds?.wikidata;
+  if (!wikidataId) {
+    const article = sight.sourceIds?.wikipedia ?? (await findNearbyArticle(sight, lang));
+    if (!article) return;
+    result.sourceIds.wikipedia = article;
+    wikidataId = await fetchWikidataId(article);
+    if (!wikidataId) return;
+  }
+  result.sourceIds.wikidata = wikidataId;
+
+  const entity = await fetchWikidataEntity(wikidataId);
+  const titles = { en: entity.sitelinks?.enwiki?.title, de: entity.sitelinks?.dewiki?.title };
+  const [en, de] = await Promise.all([
+    titles.en ? fetchExtract("en", titles.en) : undefined,
+    titles.de ? fetchExtract("de", titles.de) : undefined,
+  ]);
+
+  // Local files are curated by the user and stay as they are
+  const keepDescriptions = (sight.provenance?.descriptions ?? sight.source) === "local";
+  if ((en || de) && !keepDescriptions) {
+    const english = en ?? de!;
+    const german = de ?? en!;
+    result.briefDescription = briefFrom(english);
+    result.fullDescription = english;
+    result.briefDescriptionDE = briefFrom(german);
+    result.fullDescriptionDE = german;
+    result.provenance.descriptions = "wikipedia";
+  }
+  if (titles[lang as "en" | "de"] && !result.sourceIds.wikipedia) {
+    result.sourceIds.wikipedia = `${lang}:${titles[lang as "en" | "de"]}`;
+  }
+
+  const year = parseWikidataYear(entity.claims?.[WIKIDATA_INCEPTION]?.[0]?.mainsnak?.datavalue?.value?.time);
+  if (year !== undefined && (sight.provenance?.yearBuilt ?? sight.source) !== "local") {
+    result.yearBuilt = year;
+    result.provenance.yearBuilt = "wikipedia";
+  }
+
+  const architectIds = claimEntityIds(entity, WIKIDATA_ARCHITECT);
+  const heritageIds = claimEntityIds(entity, WIKIDATA_HERITAGE).slice(0, 1);
+  if (architectIds.length + heritageIds.length === 0) return;
+
+  const labels = await fetchWikidataLabels([...architectIds, ...heritageIds], lang);
+  const architects = architectIds.map((id) => labels[id]).filter(Boolean);
+  if (architects.length > 0) result.architect = architects.join(", ");
+  if (heritageIds[0] && labels[heritageIds[0]]) result.heritageStatus = labels[heritageIds[0]];
+}
+
+// "lang:Title" of the article about the sight, found by position and name
+async function findNearbyArticle(sight: Sight, lang: string): Promise<string | undefined> {
+  const data = await fetchJson(
+    `https://${lang}.wikipedia.org/w/api.php?action=query&format=json&origin=*` +
+      `&list=geosearch&gscoord=${sight.latitude}|${sight.longitude}&gsradius=${ARTICLE_SEARCH_RADIUS_M}&gslimit=20`
+  );
+  const best = (data.query?.geosearch ?? [])
+    .map((page: any) => ({ title: page.title as string, similarity: nameSimilarity(page.title, sight.name) }))
+    .sort((a: any, b: any) => b.similarity - a.similarity)[0];
+  return best && best.similarity >= MIN_ARTICLE_NAME_SIMILARITY ? `${lang}:${best.title}` : undefined;
+}
+
+async function fetchWikidataId(article: string): Promise<string | undefined> {
+  const [lang, ...rest] = article.split(":");
+  const data = await fetchJson(
+    `https://${lang}.wikipedia.org/w/api.php?action=query&format=json&origin=*&redirects=1` +
+      `&prop=pageprops&ppprop=wikibase_item&titles=${encodeURIComponent(rest.join(":"))}`
+  );
+  const page: any = Object.values(data.query?.pages ?? {})[0];
+  return page?.pageprops?.wikibase_item;
+}
+
+async function fetchWikidataEntity(id: string): Promise<any> {
+  const data = await fetchJson(
+    `https://www.wikidata.org/w/api.php?action=wbgetentities&format=json&origin=*` +
+      `&ids=${id}&props=claims|sitelinks&sitefilter=enwiki|dewiki`
+  );
+  return data.entities?.[id] ?? {};
+}
+
+async function fetchWikidataLabels(ids: string[], lang: string): Promise<Record<string, string>> {
+  const data = await fetchJson(
+    `https://www.wikidata.org/w/api.php?action=wbgetentities&format=json&origin=*` +
+      `&ids=${ids.join("|")}&props=labels&languages=${lang}|en`
+  );
+  const labels: Record<string, string> = {};
+  for (const id of ids) {
+    const entityLabels = data.entities?.[id]?.labels;
+    const label = entityLabels?.[lang]?.value ?? entityLabels?.en?.value;
+    if (label) labels[id] = label;
+  }
+  return labels;
+}
+
+// Plain-text introduction of the article, or with `maxChars` the article up to about that length
+export async function fetchExtract(lang: string, title: string, maxChars?: number): Promise<string | undefined> {
+  const length = maxChars ? `&exchars=${maxChars}` : "&exintro=1";
+  const data = await fetchJson(
+    `https://${lang}.wikipedia.org/w/api.php?action=query&format=json&origin=*&redirects=1` +
+      `&prop=extracts${length}&explaintext=1&titles=${encodeURIComponent(title)}`
+  );
+  const page: any = Object.values(data.query?.pages ?? {})[0];
+  const extract = page?.extract?.trim();
+  return extract || undefined;
+}
+
+function claimEntityIds(entity: any, property: string): string[] {
+  return (entity.claims?.[property] ?? [])
+    .map((claim: any) => claim.mainsnak?.datavalue?.value?.id)
+    .filter((id: unknown): id is string => typeof id === "string");
+}
+
+// Wikidata times look like "+1248-08-15T00:00:00Z"
+function parseWikidataYear(time?: string): number | undefined {
+  const match = time?.match(/^([+-])(\d+)-/);
+  if (!match) return undefined;
+  const year = parseInt(match[2], 10);
+  return match[1] === "-" ? -year : year;
+}
+
+// Whole sentences up to BRIEF_DESCRIPTION_MAX_CHARS, at least the first one
+function briefFrom(text: string): string {
+  const sentences = text.match(/[^.!?]+[.!?]+(\s|$)/g) ?? [text];
+  let brief = "";
+  for (const sentence of sentences) {
+    if (brief && brief.length + sentence.length > BRIEF_DESCRIPTION_MAX_CHARS) break;
+    brief += sentence;
+  }
+  return brief.trim();
+}
+
+/* ------------------------------ Place Details ------------------------------ */
+
+// Weekly hours of a Google place; used when planning tours, without the rest of the enrichment
+export async function fetchOpeningHours(placeId: string): Promise<OpeningHours | undefined> {
+  const { googleMapsApiKey, language } = useSettingsStore.getState();
+  if (!googleMapsApiKey) return undefined;
+  const details = await fetchPlaceDetails(placeId, googleMapsApiKey, language === "DE" ? "de" : "en");
+  return details.openingHours;
+}
+
+// Google's own summary of a place with its address and Maps link; used to ground narrations
+export async function fetchPlaceSummary(
+  placeId: string,
+  lang: string
+): Promise<{ summary?: string; address?: string; url?: string } | undefined> {
+  const { googleMapsApiKey } = useSettingsStore.getState();
+  if (!googleMapsApiKey) return undefined;
+  const data = await fetchJson(
+    `https://maps.googleapis.com/maps/api/place/details/json?place_id=${placeId}` +
+      `&fields=editorial_summary,formatted_address,url&language=${lang}&key=${googleMapsApiKey}`
+  );
+  if (data.status !== "OK") {
+    throw new Error(`Google Place Details error: ${data.status} - ${data.error_message || "Unknown"}`);
+  }
+  const place = data.result ?? {};
+  return { summary: place.editorial_summary?.overview, address: place.formatted_address, url: place.url };
+}
+
+async function fetchPlaceDetails(placeId: string, apiKey: string, lang: string): Promise<Partial<SightEnrichment>> {
+  const data = await fetchJson(
+    `https://maps.googleapis.com/maps/api/place/details/json?place_id=${placeId}` +
+      `&fields=opening_hours,website,international_phone_number&language=${lang}&key=${apiKey}`
+  );
+  if (data.status !== "OK") {
+    throw new Error(`Google Place Details error: ${data.status} - ${data.error_message || "Unknown"}`);
+  }
+
+  const place = data.result ?? {};
+  const openingHours = parseGoogleOpeningHours(place.opening_hours);
+  return {
+    openingHours,
+    website: place.website,
+    phoneNumber: place.international_phone_number,
+    provenance: openingHours ? { openingHours: "google" } : {},
+  };
+}
+
+async function fetchJson(url: string): Promise<any> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const res = await fetch(url, { signal: controller.signal });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return await res.json();
+  } finally {
+    clearTimeout(timer);
+  }
+}
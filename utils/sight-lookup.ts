@@ -0,0 +1,35 @@
+// utils/sight-lookup.ts
+// Finding a sight by id wherever the app may still know it: the visible list, the sight
+// cache, favorites and the stops of tours. Links can point to sights the app has never
+// loaded, so Google places are looked up on demand as a last resort.
+import { useSightsStore } from "@/stores/sights-store";
+import { useTourStore, withoutTourPlan } from "@/stores/tour-store";
+import { Sight } from "@/types/sight";
+import { fetchGooglePlace } from "./sight-providers";
+
+// Freshest copy first: the cache is updated by refreshes and enrichment, snapshots are not
+export function findKnownSight(sightId: string): Sight | undefined {
+  const { sights, allSights, favorites } = useSightsStore.getState();
+  const { currentTour, savedTours } = useTourStore.getState();
+  const matches = (sight: Sight) => sight.id.toString() === sightId;
+
+  const cached = sights.find(matches) ?? allSights.find(matches) ?? favorites.find((f) => f.sightId === sightId)?.sight;
+  if (cached) return cached;
+
+  const stop = [currentTour, ...savedTours].flatMap((tour) => tour?.sights ?? []).find(matches);
+  return stop && withoutTourPlan(stop);
+}
+
+// Known sights as they are; otherwise Place Details, cached so the next lookup is local
+export async function loadSight(sightId: string): Promise<Sight> {
+  const known = findKnownSight(sightId);
+  if (known) return known;
+
+  // Ids of the open-data providers carry a prefix (osm:…, wiki:…); Google ids are place ids
+  if (/^(osm|wiki|local):/.test(sightId) || /^place_\d+$/.test(sightId)) {
+    throw new Error("This sight is no longer cached and can't be looked up again.");
+  }
+  const sight = await fetchGooglePlace(sightId);
+  useSightsStore.getState().rememberSight(sight);
+  return sight;
+}
@@ -0,0 +1,299 @@
+// utils/sight-merge.ts
+// Merges records of the same real-world place into one canonical sight. Two records are the
+// same place when they share an id in some source, or when their names are similar enough
+// for how close they are and their categories fit together. The canonical sight keeps the id
+// it was first known by (favorites and tours refer to it), collects every source id, and
+// takes each field group from the source that is best at it, remembering which one that was.
+import { Sight, SightField, SightSource, SightSourceIds, SightTier } from "@/types/sight";
+import { calculateDistance } from "./geo";
+
+export const PLACEHOLDER_IMAGE =
+  "https://images.unsplash.com/photo-1469474968028-56623f02e42e?q=80&w=2070&auto=format&fit=crop";
+
+// Farther apart than this, two records are never the same place
+const MAX_MATCH_DISTANCE_KM = 0.3;
+// The closer two records are, the less alike their names need to be
+const NAME_THRESHOLDS: { maxDistanceKm: number; minSimilarity: number }[] = [
+  { maxDistanceKm: 0.05, minSimilarity: 0.6 },
+  { maxDistanceKm: 0.15, minSimilarity: 0.75 },
+  { maxDistanceKm: MAX_MATCH_DISTANCE_KM, minSimilarity: 0.9 },
+];
+// Bucket size of the spatial index, comfortably larger than MAX_MATCH_DISTANCE_KM
+const GRID_DEGREES = 0.01;
+
+// Which source to trust for each field group, best first
+const FIELD_PREFERENCE: Record<SightField, SightSource[]> = {
+  name: ["local", "google", "wikipedia", "overpass"],
+  category: ["local", "google", "overpass", "wikipedia"],
+  location: ["local", "overpass", "google", "wikipedia"],
+  imageUrl: ["local", "google", "wikipedia", "overpass"],
+  yearBuilt: ["local", "overpass", "wikipedia", "google"],
+  descriptions: ["local", "wikipedia", "overpass", "google"],
+  rating: ["google", "local", "overpass", "wikipedia"],
+  openingHours: ["local", "google", "overpass", "wikipedia"],
+};
+
+const FIELD_KEYS: Record<SightField, (keyof Sight)[]> = {
+  name: ["name"],
+  category: ["category"],
+  location: ["latitude", "longitude"],
+  imageUrl: ["imageUrl"],
+  yearBuilt: ["yearBuilt"],
+  descriptions: ["briefDescription", "fullDescription", "briefDescriptionDE", "fullDescriptionDE"],
+  rating: ["rating"],
+  openingHours: ["openingHours"],
+};
+
+// Fields that change between fetches and belong to no field group
+const REFRESHED_KEYS: (keyof Sight)[] = ["openNow", "vicinity", "userRatingsTotal"];
+
+const CATEGORY_GROUPS: { group: string; pattern: RegExp }[] = [
+  { group: "religious", pattern: /church|cathedral|chapel|religious|mosque|synagogue|temple|monastery|abbey|basilica/ },
+  { group: "museum", pattern: /museum|gallery|exhibition/ },
+  { group: "nature", pattern: /park|garden|viewpoint|nature|lake|beach/ },
+  { group: "animals", pattern: /zoo|aquarium/ },
+  { group: "historic", pattern: /castle|palace|fort|ruin|historic|monument|memorial|archaeolog|gate|tower|artwork/ },
+  { group: "entertainment", pattern: /amusement|entertainment|theme|stadium|theater|theatre/ },
+  { group: "generic", pattern: /attraction|landmark|tourist|point of interest/ },
+];
+
+// Old buildings are listed as historic by one source and religious or museum by another
+const COMPATIBLE_GROUPS = new Set(["historic|religious", "historic|museum"]);
+
+const NAME_STOPWORDS = new Set(["the", "of", "and", "der", "die", "das", "und", "la", "le", "el"]);
+
+/* ---------------------------------- Merge ---------------------------------- */
+
+// Merge `incoming` records into `existing` canonical sights. Returns the canonical list (existing
+// ids kept) and, for every id seen, the id of the canonical sight it ended up in.
+export function mergeSightRecords(existing: Sight[], incoming: Sight[]) {
+  const merged: (Sight | null)[] = [];   // null once folded into another canonical sight
+  const index = new SpatialIndex();
+  const positions = new Map<string, number>();
+  const canonicalIds = new Map<string, string>();
+
+  const add = (sight: Sight) => {
+    index.add(sight, merged.length);
+    positions.set(sight.id.toString(), merged.length);
+    canonicalIds.set(sight.id.toString(), sight.id.toString());
+    merged.push(sight);
+  };
+
+  existing.map(withImplicitSource).forEach(add);
+
+  for (const record of incoming.map(withImplicitSource)) {
+    const sameId = positions.get(record.id.toString());
+    const matches = index
+      .nearby(record)
+      .filter((i) => i === sameId || (merged[i] && isSamePlace(merged[i]!, record)));
+    if (sameId !== undefined && !matches.includes(sameId)) matches.unshift(sameId);
+
+    if (matches.length === 0) {
+      add(record);
+      continue;
+    }
+
+    // A record can link sights that did not look alike before, e.g. through a shared Wikidata id
+    const [target, ...others] = matches;
+    let sight = mergeIntoCanonical(merged[target]!, record);
+    for (const other of others) {
+      const folded = merged[other]!;
+      sight = mergeIntoCanonical(sight, folded);
+      merged[other] = null;
+      positions.set(folded.id.toString(), target);
+      for (const [id, canonicalId] of canonicalIds) {
+        if (canonicalId === folded.id.toString()) canonicalIds.set(id, sight.id.toString());
+      }
+    }
+    merged[target] = sight;
+    canonicalIds.set(record.id.toString(), sight.id.toString());
+  }
+
+  return { sights: merged.filter((s): s is Sight => s !== null), canonicalIds };
+}
+
+// Collapse duplicates within one list; earlier records keep their ids
+export function dedupeSights(sights: Sight[]): Sight[] {
+  return mergeSightRecords([], sights).sights;
+}
+
+export function isSamePlace(a: Sight, b: Sight): boolean {
+  const aIds = getSourceIds(a);
+  const bIds = getSourceIds(b);
+  const sharedKeys = (Object.keys(aIds) as (keyof SightSourceIds)[]).filter((key) => bIds[key]);
+  if (sharedKeys.some((key) => aIds[key] === bIds[key])) return true;
+  // Two different ids from the same source are two different places
+  if (sharedKeys.length > 0) return false;
+
+  const distance = calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+  if (distance > MAX_MATCH_DISTANCE_KM || !categoriesCompatible(a.category, b.category)) return false;
+
+  const threshold = NAME_THRESHOLDS.find((t) => distance <= t.maxDistanceKm)!;
+  return nameSimilarity(a.name, b.name) >= threshold.minSimilarity;
+}
+
+// 0..1, 1 for names that are equal once case, accents, punctuation and filler words are ignored
+export function nameSimilarity(a: string, b: string): number {
+  const aTokens = nameTokens(a);
+  const bTokens = nameTokens(b);
+  if (aTokens.length === 0 || bTokens.length === 0) return 0;
+
+  const aJoined = aTokens.join(" ");
+  const bJoined = bTokens.join(" ");
+  if (aJoined === bJoined) return 1;
+
+  // "Frauenkirche" vs "Frauenkirche Dresden": one name is the other plus a qualifier
+  const [shorter, longer] = aTokens.length <= bTokens.length ? [aTokens, bTokens] : [bTokens, aTokens];
+  const contained = shorter.every((token) => longer.includes(token)) ? 0.9 : 0;
+
+  return Math.max(contained, diceCoefficient(aJoined, bJoined));
+}
+
+export function categoriesCompatible(a: string, b: string): boolean {
+  const aGroup = categoryGroup(a);
+  const bGroup = categoryGroup(b);
+  if (!aGroup || !bGroup || aGroup === "generic" || bGroup === "generic" || aGroup === bGroup) return true;
+  return COMPATIBLE_GROUPS.has([aGroup, bGroup].sort().join("|"));
+}
+
+/* --------------------------------- Helpers --------------------------------- */
+
+function mergeIntoCanonical(canonical: Sight, record: Sight): Sight {
+  const source = record.source;
+  const result: Sight = {
+    ...record,
+    ...canonical,
+    id: canonical.id,
+    source: canonical.source,
+    savedContent: mergeSavedContent(canonical, record),
+    sourceIds: { ...getSourceIds(record), ...getSourceIds(canonical) },
+    provenance: { ...canonical.provenance },
+    tier: Math.min(canonical.tier, record.tier) as SightTier,
+  };
+  if (!source) return result;
+
+  // A refresh from the canonical sight's own source brings its extras (address, open now) up to date
+  if (source === canonical.source) {
+    for (const key of REFRESHED_KEYS) {
+      if (record[key] !== undefined) copyField(result, record, key);
+    }
+  }
+
+  for (const field of Object.keys(FIELD_KEYS) as SightField[]) {
+    const incoming = record.provenance?.[field] ?? source;
+    if (!hasValue(record, field)) continue;
+    const current = canonical.provenance?.[field] ?? canonical.source;
+    if (hasValue(canonical, field) && current && rank(field, incoming) > rank(field, current)) continue;
+
+    // Preferred (or the same) source, or the canonical sight has nothing better
+    for (const key of FIELD_KEYS[field]) copyField(result, record, key);
+    result.provenance![field] = incoming;
+  }
+
+  // Google's popularity signals travel with its rating
+  if (result.provenance?.rating === "google") {
+    result.userRatingsTotal = record.userRatingsTotal ?? canonical.userRatingsTotal;
+  }
+  return result;
+}
+
+function copyField<K extends keyof Sight>(to: Sight, from: Sight, key: K) {
+  to[key] = from[key];
+}
+
+// Narrations generated for a duplicate stay with the place
+function mergeSavedContent(canonical: Sight, record: Sight) {
+  if (!record.savedContent?.length) return canonical.savedContent;
+  const known = new Set((canonical.savedContent ?? []).map((c) => c.id));
+  return [...(canonical.savedContent ?? []), ...record.savedContent.filter((c) => !known.has(c.id))];
+}
+
+// Sights cached before sources existed all came from Google Places
+function withImplicitSource(sight: Sight): Sight {
+  if (sight.source || !sight.placeId) return sight;
+  return { ...sight, source: "google", sourceIds: { google: sight.placeId, ...sight.sourceIds } };
+}
+
+function getSourceIds(sight: Sight): SightSourceIds {
+  return sight.placeId ? { google: sight.placeId, ...sight.sourceIds } : { ...sight.sourceIds };
+}
+
+function hasValue(sight: Sight, field: SightField): boolean {
+  return FIELD_KEYS[field].every((key) => {
+    const value = sight[key];
+    if (value === undefined || value === null || value === "") return false;
+    return !(key === "imageUrl" && value === PLACEHOLDER_IMAGE);
+  });
+}
+
+function rank(field: SightField, source: SightSource): number {
+  const index = FIELD_PREFERENCE[field].indexOf(source);
+  return index < 0 ? FIELD_PREFERENCE[field].length : index;
+}
+
+function categoryGroup(category: string): string | undefined {
+  const lower = category.toLowerCase();
+  return CATEGORY_GROUPS.find(({ pattern }) => pattern.test(lower))?.group;
+}
+
+function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/ß/g, "ss")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token && !NAME_STOPWORDS.has(token));
+}
+
+// Overlap of character bigrams, ignoring spaces
+function diceCoefficient(a: string, b: string): number {
+  const bigrams = (s: string) => {
+    const compact = s.replace(/ /g, "");
+    const counts = new Map<string, number>();
+    for (let i = 0; i < compact.length - 1; i++) {
+      const bigram = compact.slice(i, i + 2);
+      counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+    }
+    return counts;
+  };
+
+  const aBigrams = bigrams(a);
+  const bBigrams = bigrams(b);
+  let total = 0;
+  let shared = 0;
+  for (const count of aBigrams.values()) total += count;
+  for (const [bigram, count] of bBigrams) {
+    total += count;
+    shared += Math.min(count, aBigrams.get(bigram) ?? 0);
+  }
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+// Positions of sights bucketed by a coarse lat/lng grid, so a lookup only compares neighbours
+class SpatialIndex {
+  private cells = new Map<string, number[]>();
+
+  add(sight: Sight, position: number) {
+    const key = this.key(Math.floor(sight.latitude / GRID_DEGREES), Math.floor(sight.longitude / GRID_DEGREES));
+    const cell = this.cells.get(key);
+    if (cell) cell.push(position);
+    else this.cells.set(key, [position]);
+  }
+
+  nearby(sight: Sight): number[] {
+    const row = Math.floor(sight.latitude / GRID_DEGREES);
+    const column = Math.floor(sight.longitude / GRID_DEGREES);
+    const positions: number[] = [];
+    for (let dRow = -1; dRow <= 1; dRow++) {
+      for (let dColumn = -1; dColumn <= 1; dColumn++) {
+        positions.push(...(this.cells.get(this.key(row + dRow, column + dColumn)) ?? []));
+      }
+    }
+    return positions.sort((a, b) => a - b);
+  }
+
+  private key(row: number, column: number) {
+    return `${row}:${column}`;
+  }
+}
@@ -0,0 +1,447 @@
+// utils/sight-providers.ts
+import * as FileSystem from "expo-file-system";
+
+import { useSettingsStore, SightProviderType } from "@/stores/settings-store";
+import { Sight, SightTier } from "@/types/sight";
+import { calculateDistance } from "./geo";
+import { PLACEHOLDER_IMAGE, dedupeSights } from "./sight-merge";
+import { parseGoogleOpeningHours, parseOsmOpeningHours } from "./opening-hours";
+import { parseOpeningHours } from "./persisted-schema";
+
+export interface SightQuery {
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+  language: "EN" | "DE";
+}
+
+export interface SightProvider {
+  name: SightProviderType;
+  maxRadiusKm?: number;   // searches are clamped to this; unlimited when not set
+  search: (query: SightQuery) => Promise<Sight[]>;
+}
+
+export interface SightSearchResult {
+  sights: Sight[];
+  radiusKm: number;       // how far every source that answered actually searched
+}
+
+const REQUEST_TIMEOUT_MS = 20000;
+// Overpass and Wikipedia geosearch refuse (or choke on) larger areas
+const MAX_OPEN_DATA_RADIUS_M = 10000;
+const MAX_GOOGLE_RADIUS_M = 50000;
+
+export function determineSightTier(rating?: number, userRatingsTotal?: number): SightTier {
+  if (!rating || !userRatingsTotal) return 2;
+  if (rating >= 4.3 && userRatingsTotal >= 500) return 1;
+  if (rating < 4.0 || userRatingsTotal < 50) return 3;
+  return 2;
+}
+
+/* -------------------------------- Providers -------------------------------- */
+
+export function createGooglePlacesProvider(apiKey: string): SightProvider {
+  return {
+    name: "google",
+    maxRadiusKm: MAX_GOOGLE_RADIUS_M / 1000,
+    search: async ({ latitude, longitude, radiusKm, language }) => {
+      const radiusMeters = Math.max(100, Math.min(MAX_GOOGLE_RADIUS_M, Math.round(radiusKm * 1000)));
+
+      const baseUrl =
+        `https://maps.googleapis.com/maps/api/place/nearbysearch/json` +
+        `?location=${latitude},${longitude}` +
+        `&radius=${radiusMeters}` +
+        `&type=tourist_attraction` +
+        `&language=${language === "DE" ? "de" : "en"}` +
+        `&key=${apiKey}`;
+
+      // page up to 3 times (Google pagetoken warm-up needs delay)
+      const pages: any[] = [];
+      let url = baseUrl;
+      for (let i = 0; i < 3; i++) {
+        const data = await fetchJson(url);
+        if (data.status !== "OK" && data.status !== "ZERO_RESULTS") {
+          throw new Error(`Google Places API error: ${data.status} - ${data.error_message || "Unknown"}`);
+        }
+        pages.push(...(data.results ?? []));
+        const next = data.next_page_token;
+        if (!next) break;
+        await new Promise((r) => setTimeout(r, 2000));
+        url = `${baseUrl}&pagetoken=${next}`;
+      }
+
+      // de-duplicate by place_id
+      const unique = new Map<string, any>();
+      for (const p of pages) {
+        const id = p.place_id ?? `${p.name}_${p.geometry?.location?.lat}_${p.geometry?.location?.lng}`;
+        if (!unique.has(id)) unique.set(id, p);
+      }
+
+      return Array.from(unique.values()).map((place: any, index: number) => ({
+        ...googlePlaceToSight(place, apiKey, `place_${index}`),
+        distance: roundedDistance(latitude, longitude, place.geometry.location.lat, place.geometry.location.lng),
+      }));
+    },
+  };
+}
+
+// A single Google place by id, for sights that are linked to but no longer cached
+export async function fetchGooglePlace(placeId: string): Promise<Sight> {
+  const { googleMapsApiKey, language } = useSettingsStore.getState();
+  if (!googleMapsApiKey) throw new Error("Add a Google Maps API key in Settings to look up this sight.");
+
+  const data = await fetchJson(
+    `https://maps.googleapis.com/maps/api/place/details/json?place_id=${encodeURIComponent(placeId)}` +
+      `&fields=place_id,name,types,geometry,photos,rating,user_ratings_total,vicinity,opening_hours` +
+      `&language=${language === "DE" ? "de" : "en"}&key=${googleMapsApiKey}`
+  );
+  if (data.status === "NOT_FOUND" || data.status === "INVALID_REQUEST") {
+    throw new Error("This sight no longer exists on Google Maps.");
+  }
+  if (data.status !== "OK") {
+    throw new Error(`Google Place Details error: ${data.status} - ${data.error_message || "Unknown"}`);
+  }
+
+  const sight = googlePlaceToSight(data.result, googleMapsApiKey, placeId);
+  const openingHours = parseGoogleOpeningHours(data.result.opening_hours);
+  return openingHours ? { ...sight, openingHours, provenance: { openingHours: "google" } } : sight;
+}
+
+// Nearby search results and Place Details share the same place shape
+function googlePlaceToSight(place: any, apiKey: string, fallbackId: string): Sight {
+  return {
+    id: place.place_id || fallbackId,
+    name: place.name,
+    category: formatCategory(place.types?.[0]) || "Attraction",
+    latitude: place.geometry.location.lat,
+    longitude: place.geometry.location.lng,
+    imageUrl: place.photos?.[0]
+      ? `https://maps.googleapis.com/maps/api/place/photo?maxwidth=400&photo_reference=${place.photos[0].photo_reference}&key=${apiKey}`
+      : PLACEHOLDER_IMAGE,
+    briefDescription: place.vicinity || "A notable attraction in the area",
+    fullDescription: place.vicinity || "A notable attraction in the area",
+    briefDescriptionDE: place.vicinity || "Eine bemerkenswerte Attraktion in der Gegend",
+    fullDescriptionDE: place.vicinity || "Eine bemerkenswerte Attraktion in der Gegend",
+    rating: place.rating,
+    userRatingsTotal: place.user_ratings_total,
+    placeId: place.place_id,
+    vicinity: place.vicinity,
+    tier: determineSightTier(place.rating, place.user_ratings_total),
+    source: "google",
+    sourceIds: place.place_id ? { google: place.place_id } : undefined,
+    openNow: place.opening_hours?.open_now ?? undefined,
+  };
+}
+
+// OpenStreetMap via the Overpass API: named tourism and historic features
+export function createOverpassProvider(endpoint = "https://overpass-api.de/api/interpreter"): SightProvider {
+  const minorHistoric = new Set(["memorial", "wayside_cross", "wayside_shrine", "boundary_stone", "milestone", "stone"]);
+
+  return {
+    name: "overpass",
+    maxRadiusKm: MAX_OPEN_DATA_RADIUS_M / 1000,
+    search: async ({ latitude, longitude, radiusKm, language }) => {
+      const radius = Math.min(MAX_OPEN_DATA_RADIUS_M, Math.round(radiusKm * 1000));
+      const around = `(around:${radius},${latitude},${longitude})`;
+      const query =
+        `[out:json][timeout:25];(` +
+        `nwr["tourism"~"^(attraction|museum|gallery|viewpoint|artwork|zoo|theme_park|aquarium)$"]["name"]${around};` +
+        `nwr["historic"]["name"]${around};` +
+        `);out center tags 300;`;
+
+      const data = await fetchJson(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: `data=${encodeURIComponent(query)}`,
+      });
+
+      return (data.elements ?? [])
+        .map((element: any): Sight | null => {
+          const lat = element.lat ?? element.center?.lat;
+          const lon = element.lon ?? element.center?.lon;
+          const tags = element.tags ?? {};
+          if (!Number.isFinite(lat) || !Number.isFinite(lon) || !tags.name) return null;
+
+          const osmId = `${element.type}/${element.id}`;
+          const kind = tags.tourism ?? tags.historic;
+          const name = (language === "DE" ? tags["name:de"] : tags["name:en"]) || tags.name;
+          const hasWiki = !!(tags.wikidata || tags.wikipedia);
+          const tier: SightTier = hasWiki ? 1 : tags.historic && minorHistoric.has(tags.historic) ? 3 : 2;
+          const description = tags.description || `${formatCategory(kind)} in the area`;
+
+          return {
+            id: `osm:${osmId}`,
+            name,
+            category: formatCategory(kind),
+            latitude: lat,
+            longitude: lon,
+            distance: roundedDistance(latitude, longitude, lat, lon),
+            imageUrl: /^https?:\/\//.test(tags.image ?? "") ? tags.image : PLACEHOLDER_IMAGE,
+            yearBuilt: parseYear(tags.start_date),
+            openingHours: parseOsmOpeningHours(tags.opening_hours),
+            briefDescription: description,
+            fullDescription: description,
+            briefDescriptionDE: tags["description:de"] || description,
+            fullDescriptionDE: tags["description:de"] || description,
+            tier,
+            source: "overpass",
+            sourceIds: { overpass: osmId, ...(tags.wikidata ? { wikidata: tags.wikidata } : {}) },
+          };
+        })
+        .filter((s: Sight | null): s is Sight => s !== null);
+    },
+  };
+}
+
+// Wikipedia articles with coordinates near the point (geosearch), with their Wikidata ids
+export function createWikipediaProvider(): SightProvider {
+  return {
+    name: "wikipedia",
+    maxRadiusKm: MAX_OPEN_DATA_RADIUS_M / 1000,
+    search: async ({ latitude, longitude, radiusKm, language }) => {
+      const lang = language === "DE" ? "de" : "en";
+      const radius = Math.max(10, Math.min(MAX_OPEN_DATA_RADIUS_M, Math.round(radiusKm * 1000)));
+      const url =
+        `https://${lang}.wikipedia.org/w/api.php?action=query&format=json&origin=*` +
+        `&generator=geosearch&ggscoord=${latitude}|${longitude}&ggsradius=${radius}&ggslimit=50` +
+        `&prop=coordinates|pageimages|description|pageprops&piprop=thumbnail&pithumbsize=400&ppprop=wikibase_item`;
+
+      const data = await fetchJson(url);
+      const pages: any[] = Object.values(data.query?.pages ?? {});
+
+      return pages
+        .map((page: any): Sight | null => {
+          const coords = page.coordinates?.[0];
+          if (!coords) return null;
+
+          const wikidataId: string | undefined = page.pageprops?.wikibase_item;
+          const description = page.description || page.title;
+
+          return {
+            id: `wiki:${lang}:${page.pageid}`,
+            name: page.title,
+            category: "Landmark",
+            latitude: coords.lat,
+            longitude: coords.lon,
+            distance: roundedDistance(latitude, longitude, coords.lat, coords.lon),
+            imageUrl: page.thumbnail?.source ?? PLACEHOLDER_IMAGE,
+            briefDescription: description,
+            fullDescription: description,
+            briefDescriptionDE: description,
+            fullDescriptionDE: description,
+            tier: wikidataId && page.thumbnail ? 1 : 2,
+            source: "wikipedia",
+            sourceIds: { wikipedia: `${lang}:${page.title}`, ...(wikidataId ? { wikidata: wikidataId } : {}) },
+          };
+        })
+        .filter((s: Sight | null): s is Sight => s !== null);
+    },
+  };
+}
+
+// Parsed local sight files by URI; providers are created per search, the files only read once
+const localSightsCache = new Map<string, Sight[]>();
+
+// A JSON file (array of sights, or { sights: [...] }) or a GeoJSON FeatureCollection of points,
+// read from the device or an http(s) URL
+export function createLocalFileProvider(uri: string): SightProvider {
+  const load = async (): Promise<Sight[]> => {
+    const cached = localSightsCache.get(uri);
+    if (cached) return cached;
+    const raw: unknown = /^https?:\/\//.test(uri) ? await fetchJson(uri) : JSON.parse(await FileSystem.readAsStringAsync(uri));
+    const sights = parseLocalSights(raw);
+    localSightsCache.set(uri, sights);
+    return sights;
+  };
+
+  return {
+    name: "local",
+    search: async ({ latitude, longitude, radiusKm }) => {
+      const sights = await load();
+      return sights
+        .map((s) => ({ ...s, distance: roundedDistance(latitude, longitude, s.latitude, s.longitude) }))
+        .filter((s) => s.distance <= radiusKm);
+    },
+  };
+}
+
+export function parseLocalSights(raw: unknown): Sight[] {
+  const items: unknown[] =
+    isRecord(raw) && raw.type === "FeatureCollection"
+      ? (Array.isArray(raw.features) ? raw.features : []).flatMap((feature: unknown) => {
+          if (!isRecord(feature) || !isRecord(feature.geometry) || feature.geometry.type !== "Point") return [];
+          const coordinates = feature.geometry.coordinates;
+          if (!Array.isArray(coordinates)) return [];
+          const properties = isRecord(feature.properties) ? feature.properties : {};
+          return [{ ...properties, id: feature.id ?? properties.id, longitude: coordinates[0], latitude: coordinates[1] }];
+        })
+      : Array.isArray(raw) ? raw : isRecord(raw) && Array.isArray(raw.sights) ? raw.sights : [];
+
+  const located = items.flatMap((item) => {
+    if (!isRecord(item) || typeof item.name !== "string" || !item.name) return [];
+    const latitude = finiteNumber(item.latitude);
+    const longitude = finiteNumber(item.longitude);
+    if (latitude === undefined || longitude === undefined) return [];
+    return [{ item, name: item.name, latitude, longitude }];
+  });
+
+  // Sights without an id in the file are numbered in the order they appear
+  return located.map(({ item, name, latitude, longitude }, index): Sight => {
+    const localId = typeof item.id === "string" || typeof item.id === "number" ? String(item.id) : String(index);
+    const text = (value: unknown) => (typeof value === "string" ? value : "");
+    const description = text(item.briefDescription) || text(item.description);
+    const fullDescription = text(item.fullDescription);
+    return {
+      id: `local:${localId}`,
+      name,
+      category: text(item.category) || "Attraction",
+      latitude,
+      longitude,
+      imageUrl: text(item.imageUrl) || text(item.image) || PLACEHOLDER_IMAGE,
+      yearBuilt: finiteNumber(item.yearBuilt),
+      briefDescription: description,
+      fullDescription: fullDescription || description,
+      briefDescriptionDE: text(item.briefDescriptionDE) || description,
+      fullDescriptionDE: text(item.fullDescriptionDE) || fullDescription || description,
+      rating: finiteNumber(item.rating),
+      openingHours:
+        typeof item.openingHours === "string" ? parseOsmOpeningHours(item.openingHours) : parseOpeningHours(item.openingHours),
+      tier: item.tier === 1 || item.tier === 3 ? item.tier : 2,
+      source: "local",
+      sourceIds: { local: localId },
+    };
+  });
+}
+
+/* --------------------------------- Search --------------------------------- */
+
+// Providers enabled in Settings that can run with the current configuration
+export function getSightProviders(): SightProvider[] {
+  const { sightProviders, googleMapsApiKey, localSightsUrl } = useSettingsStore.getState();
+  const providers: SightProvider[] = [];
+
+  for (const type of sightProviders) {
+    switch (type) {
+      case "google":
+        if (googleMapsApiKey) providers.push(createGooglePlacesProvider(googleMapsApiKey));
+        break;
+      case "overpass":
+        providers.push(createOverpassProvider());
+        break;
+      case "wikipedia":
+        providers.push(createWikipediaProvider());
+        break;
+      case "local":
+        if (localSightsUrl) providers.push(createLocalFileProvider(localSightsUrl));
+        break;
+    }
+  }
+  return providers;
+}
+
+// Query all providers in parallel and merge duplicates across them (utils/sight-merge).
+// Fails only when every provider fails, so one unreachable source never hides the others.
+// The result says how far out all answering sources looked: sources that clamp their radius
+// leave the area beyond it unsearched.
+export async function searchSights(query: SightQuery, providers = getSightProviders()): Promise<SightSearchResult> {
+  if (providers.length === 0) throw new Error("No sight sources configured. Enable one in Settings.");
+
+  const results = await Promise.allSettled(providers.map((provider) => provider.search(query)));
+  const lists: Sight[][] = [];
+  let radiusKm = query.radiusKm;
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      lists.push(result.value);
+      radiusKm = Math.min(radiusKm, providers[index].maxRadiusKm ?? Infinity);
+    } else {
+      console.warn(`Sight provider ${providers[index].name} failed:`, result.reason);
+    }
+  });
+
+  if (lists.length === 0) {
+    throw new Error("All sight sources failed");
+  }
+  // Enabled sources come in Settings order, so the first source to know a place gives it its id
+  return { sights: dedupeSights(lists.flat()), radiusKm };
+}
+
+/* --------------------------------- Helpers --------------------------------- */
+
+function roundedDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  return parseFloat(calculateDistance(lat1, lon1, lat2, lon2).toFixed(1));
+}
+
+function parseYear(value?: string): number | undefined {
+  const match = value?.match(/^(\d{3,4})/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+function isRecord(raw: unknown): raw is Record<string, unknown> {
+  return typeof raw === "object" && raw !== null && !Array.isArray(raw);
+}
+
+function finiteNumber(raw: unknown): number | undefined {
+  return typeof raw === "number" && isFinite(raw) ? raw : undefined;
+}
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const res = await fetch(url, { ...init, signal: controller.signal });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return await res.json();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function formatCategory(type: string): string {
+  if (!type) return "Attraction";
+  const categoryMap: { [key: string]: string } = {
+    tourist_attraction: "Tourist Attraction",
+    museum: "Museum",
+    church: "Religious Site",
+    park: "Park",
+    monument: "Monument",
+    castle: "Castle",
+    art_gallery: "Art Gallery",
+    gallery: "Art Gallery",
+    zoo: "Zoo",
+    amusement_park: "Amusement Park",
+    theme_park: "Amusement Park",
+    aquarium: "Aquarium",
+    library: "Library",
+    university: "University",
+    stadium: "Stadium",
+    shopping_mall: "Shopping",
+    restaurant: "Restaurant",
+    cafe: "Cafe",
+    bar: "Bar",
+    night_club: "Nightlife",
+    movie_theater: "Entertainment",
+    bowling_alley: "Entertainment",
+    gym: "Sports & Fitness",
+    spa: "Wellness",
+    hospital: "Healthcare",
+    pharmacy: "Healthcare",
+    bank: "Services",
+    atm: "Services",
+    gas_station: "Services",
+    car_rental: "Transportation",
+    subway_station: "Transportation",
+    bus_station: "Transportation",
+    train_station: "Transportation",
+    airport: "Transportation",
+    lodging: "Accommodation",
+    campground: "Accommodation",
+    rv_park: "Accommodation",
+    attraction: "Tourist Attraction",
+    viewpoint: "Viewpoint",
+    artwork: "Artwork",
+    memorial: "Memorial",
+    ruins: "Ruins",
+    archaeological_site: "Archaeological Site",
+  };
+  return categoryMap[type] || type.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase());
+}
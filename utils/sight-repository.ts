@@ -0,0 +1,118 @@
+// utils/sight-repository.ts
+// Sights are cached per geohash tile. Each tile remembers when it was last fetched and
+// which sights it holds, so an area can be served from the cache right away and only
+// stale or unknown tiles need the network. Fetch results are merged in (utils/sight-merge);
+// nothing is dropped because a request failed.
+import { Sight } from "@/types/sight";
+import { calculateDistance } from "./geo";
+import { encodeGeohash, geohashesAround } from "./geohash";
+import { mergeSightRecords } from "./sight-merge";
+
+export interface SightTile {
+  hash: string;
+  fetchedAt: number;     // 0 when the tile only holds sights found by a neighbouring search
+  sightIds: string[];
+}
+
+export const TILE_PRECISION = 5;                      // ≈ 4.9 × 4.9 km
+export const TILE_TTL_MS = 24 * 60 * 60 * 1000;
+export const PER_TILE_LIMIT = 40;
+const MAX_TILES = 150;
+
+export function getTileHashes(latitude: number, longitude: number, radiusKm: number): string[] {
+  return geohashesAround(latitude, longitude, radiusKm, TILE_PRECISION);
+}
+
+export function getSightTileHash(sight: Pick<Sight, "latitude" | "longitude">): string {
+  return encodeGeohash(sight.latitude, sight.longitude, TILE_PRECISION);
+}
+
+export function getCachedSights(tiles: Record<string, SightTile>, allSights: Sight[], hashes: string[]): Sight[] {
+  const ids = new Set(hashes.flatMap((hash) => tiles[hash]?.sightIds ?? []));
+  return allSights.filter((s) => ids.has(s.id.toString()));
+}
+
+// Tiles that were never fetched or whose data is older than TILE_TTL_MS
+export function findStaleTiles(tiles: Record<string, SightTile>, hashes: string[], now: number): string[] {
+  return hashes.filter((hash) => {
+    const tile = tiles[hash];
+    return !tile || now - tile.fetchedAt > TILE_TTL_MS;
+  });
+}
+
+export function withDistanceFrom(sights: Sight[], latitude: number, longitude: number): Sight[] {
+  return sights
+    .map((s) => ({
+      ...s,
+      distance: parseFloat(calculateDistance(latitude, longitude, s.latitude, s.longitude).toFixed(1)),
+    }))
+    .sort((a, b) => (a.distance || 0) - (b.distance || 0));
+}
+
+interface MergeInput {
+  tiles: Record<string, SightTile>;
+  allSights: Sight[];
+  fetched: Sight[];
+  searchedHashes: string[];   // tiles the fetch covered; they get a fresh timestamp
+  keepIds: Set<string>;       // never evicted, e.g. favorites
+  now: number;
+}
+
+export function mergeFetchedSights({ tiles, allSights, fetched, searchedHashes, keepIds, now }: MergeInput) {
+  // Known sights go first so they keep their ids; duplicates among them are folded in as well
+  const { sights, canonicalIds } = mergeSightRecords([], [...allSights, ...fetched]);
+  const byId = new Map(sights.map((s) => [s.id.toString(), s] as const));
+  const canonical = (id: string) => canonicalIds.get(id) ?? id;
+
+  const nextTiles: Record<string, SightTile> = {};
+  for (const [hash, tile] of Object.entries(tiles)) {
+    nextTiles[hash] = { ...tile, sightIds: [...new Set(tile.sightIds.map(canonical))] };
+  }
+
+  const tileFor = (hash: string) => (nextTiles[hash] ??= { hash, fetchedAt: 0, sightIds: [] });
+  const addToTile = (sight: Sight) => {
+    const tile = tileFor(getSightTileHash(sight));
+    const id = sight.id.toString();
+    if (!tile.sightIds.includes(id)) tile.sightIds.push(id);
+  };
+
+  // Known sights from before tiles existed (or that lost their tile) get one again
+  const assigned = new Set(Object.values(nextTiles).flatMap((tile) => tile.sightIds));
+  for (const sight of sights) {
+    if (!assigned.has(sight.id.toString())) addToTile(sight);
+  }
+
+  for (const record of fetched) addToTile(byId.get(canonical(record.id.toString()))!);
+
+  for (const hash of searchedHashes) tileFor(hash).fetchedAt = now;
+
+  for (const tile of Object.values(nextTiles)) {
+    tile.sightIds = tile.sightIds
+      .filter((id) => byId.has(id))
+      .sort((a, b) => sightQuality(byId.get(b)!) - sightQuality(byId.get(a)!))
+      .slice(0, PER_TILE_LIMIT);
+  }
+
+  // Forget the least recently fetched tiles once there are too many; a wide search can cover
+  // more than MAX_TILES on its own, and the tiles it just fetched are never the ones to go
+  const searched = new Set(searchedHashes);
+  const byAge = Object.values(nextTiles)
+    .filter((tile) => !searched.has(tile.hash))
+    .sort((a, b) => b.fetchedAt - a.fetchedAt);
+  for (const tile of byAge.slice(Math.max(0, MAX_TILES - searched.size))) delete nextTiles[tile.hash];
+
+  const keptIds = new Set([...keepIds].map(canonical));
+  const referenced = new Set(Object.values(nextTiles).flatMap((tile) => tile.sightIds));
+  const nextSights = [...byId.values()].filter((s) => {
+    const id = s.id.toString();
+    return referenced.has(id) || keptIds.has(id) || (s.savedContent?.length ?? 0) > 0;
+  });
+
+  return { tiles: nextTiles, allSights: nextSights, canonicalIds };
+}
+
+// Higher tiers first, then by rating weighted with the number of ratings
+function sightQuality(sight: Sight): number {
+  const ratings = sight.userRatingsTotal ?? 0;
+  return (4 - sight.tier) * 100 + (sight.rating ?? 0) * Math.log10(1 + ratings);
+}
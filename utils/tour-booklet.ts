@@ -0,0 +1,249 @@
+// utils/tour-booklet.ts
+// A printable handout of a tour: a cover with the route map, then one page per day with each
+// stop's picture, description, saved narration and the way to the next stop. Built as HTML and
+// rendered to PDF by the system print engine, then handed to the share sheet.
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+
+import { useSettingsStore } from "@/stores/settings-store";
+import { Tour, TourDay, TourStop, getTourDays } from "@/stores/tour-store";
+import { SavedContent } from "@/types/sight";
+import { formatClockTime } from "./opening-hours";
+import { encodePolyline } from "./routing";
+import { findKnownSight } from "./sight-lookup";
+import { dayPath } from "./tour-export";
+
+const MAP_WIDTH = 640;
+const MAP_HEIGHT = 400;
+// Static Maps URLs are limited to 16k characters; longer street paths are thinned out
+const MAX_PATH_POINTS = 150;
+const DAY_COLORS = ["#2563EB", "#DC2626", "#16A34A", "#9333EA", "#EA580C", "#0891B2"];
+
+export async function shareTourBooklet(tour: Tour): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) throw new Error("Sharing files isn't available on this device.");
+
+  const { uri } = await Print.printToFileAsync({ html: buildTourBookletHtml(tour) });
+  await Sharing.shareAsync(uri, { mimeType: "application/pdf", UTI: "com.adobe.pdf", dialogTitle: tour.name });
+}
+
+export function buildTourBookletHtml(tour: Tour): string {
+  const { language } = useSettingsStore.getState();
+  const days = getTourDays(tour);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(tour.name)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${coverPage(tour, days)}
+${days.map((day) => dayPage(tour, day, days.length, language)).join("\n")}
+</body>
+</html>`;
+}
+
+/* ---------------------------------- Pages ---------------------------------- */
+
+function coverPage(tour: Tour, days: TourDay[]): string {
+  const facts = [
+    `${tour.sights.length} stops`,
+    `${tour.totalDistance.toFixed(1)} km`,
+    formatDuration(tour.estimatedDuration),
+    days.length > 1 ? `${days.length} days` : undefined,
+  ].filter(Boolean);
+  const isRoundTrip = !tour.end || !tour.start ||
+    (tour.end.latitude === tour.start.latitude && tour.end.longitude === tour.start.longitude);
+  const when = tour.startsAt
+    ? new Date(tour.startsAt).toLocaleDateString([], { weekday: "long", year: "numeric", month: "long", day: "numeric" })
+    : undefined;
+
+  return `<section class="cover">
+  <h1>${escapeHtml(tour.name)}</h1>
+  ${when ? `<p class="date">${escapeHtml(when)}</p>` : ""}
+  <p class="facts">${facts.map((fact) => escapeHtml(fact!)).join(" · ")}</p>
+  ${routeMap(tour, days)}
+  ${days.length > 1 ? `<p class="legend">${days.map((day) => `<span style="color:${dayColor(day)}">■</span> Day ${day.day}`).join("&nbsp;&nbsp;")}</p>` : ""}
+  ${tour.start ? `<p class="endpoints">Start: ${escapeHtml(tour.start.name || "Start")}${!isRoundTrip ? ` · End: ${escapeHtml(tour.end!.name || "End")}` : ""}</p>` : ""}
+</section>`;
+}
+
+function dayPage(tour: Tour, day: TourDay, dayCount: number, language: "EN" | "DE"): string {
+  const title = dayCount > 1 ? `Day ${day.day}` : "Stops";
+  const schedule = day.startsAt && day.endsAt ? `${formatClockTime(day.startsAt)} – ${formatClockTime(day.endsAt)} · ` : "";
+
+  return `<section class="day">
+  <h2>${title}</h2>
+  <p class="facts">${schedule}${day.sights.length} stops · ${day.totalDistance.toFixed(1)} km · ${formatDuration(day.estimatedDuration)}</p>
+  ${day.startLeg && tour.start ? wayNote(`From ${tour.start.name || "the start"}`, day.startLeg.distance, day.startLeg.walkingTime) : ""}
+  ${day.sights.map((stop, index) => stopSection(stop, index < day.sights.length - 1, language)).join("\n")}
+  ${day.endLeg && tour.end ? wayNote(`To ${tour.end.name || "the end"}`, day.endLeg.distance, day.endLeg.walkingTime) : ""}
+</section>`;
+}
+
+function stopSection(stop: TourStop, hasNext: boolean, language: "EN" | "DE"): string {
+  // The sights store has the latest narrations; the tour keeps a copy from when it was planned
+  const sight = findKnownSight(String(stop.id)) ?? stop;
+  const description = language === "DE"
+    ? sight.fullDescriptionDE || sight.briefDescriptionDE
+    : sight.fullDescription || sight.briefDescription;
+  const narration = pickNarration(sight.savedContent ?? stop.savedContent, language);
+  const timing = stop.plannedArrival && stop.plannedDeparture
+    ? `${formatClockTime(stop.plannedArrival)} – ${formatClockTime(stop.plannedDeparture)}`
+    : undefined;
+
+  return `<article class="stop">
+  <div class="stop-header">
+    <span class="badge">${stop.order}</span>
+    <div>
+      <h3>${escapeHtml(stop.name)}</h3>
+      <p class="meta">${[stop.category, timing].filter(Boolean).map((text) => escapeHtml(text!)).join(" · ")}</p>
+    </div>
+  </div>
+  ${sight.imageUrl ? `<img class="photo" src="${escapeHtml(sight.imageUrl)}" />` : ""}
+  ${description ? `<p>${escapeHtml(description)}</p>` : ""}
+  ${narration ? `<blockquote>${paragraphs(narration.content)}</blockquote>` : ""}
+  ${narration?.sources?.length ? `<p class="sources">Sources: ${narration.sources.map((source) => `[${source.id}] ${escapeHtml(source.title)}`).join(" · ")}</p>` : ""}
+</article>
+${hasNext && stop.distanceToNext !== undefined ? wayNote("Next stop", stop.distanceToNext, stop.walkingTimeToNext) : ""}`;
+}
+
+function wayNote(label: string, distanceKm: number, minutes?: number): string {
+  const parts = [`${distanceKm.toFixed(1)} km`, minutes !== undefined ? formatDuration(minutes) : undefined].filter(Boolean);
+  return `<p class="way">→ ${escapeHtml(label)}: ${parts.join(" · ")}</p>`;
+}
+
+// The newest narration in the booklet's language, else the newest at all
+function pickNarration(saved: SavedContent[] | undefined, language: string): SavedContent | undefined {
+  if (!saved || saved.length === 0) return undefined;
+  const newestFirst = [...saved].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  return newestFirst.find((content) => content.language === language) ?? newestFirst[0];
+}
+
+/* ----------------------------------- Map ----------------------------------- */
+
+// A Google Static Maps image when a key is set, otherwise a sketch of the route drawn in SVG
+function routeMap(tour: Tour, days: TourDay[]): string {
+  const { googleMapsApiKey } = useSettingsStore.getState();
+  if (googleMapsApiKey) {
+    return `<img class="map" src="${escapeHtml(staticMapUrl(tour, days, googleMapsApiKey))}" />`;
+  }
+  return routeSketch(tour, days);
+}
+
+function staticMapUrl(tour: Tour, days: TourDay[], apiKey: string): string {
+  const paths = days.map((day) => {
+    const path = thin(dayPath(tour, day), MAX_PATH_POINTS).map(([longitude, latitude]) => ({ latitude, longitude }));
+    return `path=${encodeURIComponent(`color:0x${dayColor(day).slice(1)}CC|weight:4|enc:${encodePolyline(path)}`)}`;
+  });
+  // Marker labels are a single character, so only the first nine stops are numbered
+  const markers = tour.sights.map((stop) =>
+    `markers=${encodeURIComponent(`size:mid|color:red|${stop.order <= 9 ? `label:${stop.order}|` : ""}${stop.latitude},${stop.longitude}`)}`
+  );
+  const start = tour.start ? [`markers=${encodeURIComponent(`size:small|color:green|${tour.start.latitude},${tour.start.longitude}`)}`] : [];
+
+  return `https://maps.googleapis.com/maps/api/staticmap?size=${MAP_WIDTH}x${MAP_HEIGHT}&scale=2` +
+    `&${[...paths, ...markers, ...start].join("&")}&key=${apiKey}`;
+}
+
+function routeSketch(tour: Tour, days: TourDay[]): string {
+  const paths = days.map((day) => ({ day, points: dayPath(tour, day) }));
+  const all = paths.flatMap(({ points }) => points);
+  if (all.length === 0) return "";
+
+  // Equirectangular projection, scaled to fit with a margin; good enough at city scale
+  const margin = 24;
+  const midLatitude = (Math.min(...all.map(([, lat]) => lat)) + Math.max(...all.map(([, lat]) => lat))) / 2;
+  const xScale = Math.cos((midLatitude * Math.PI) / 180);
+  const xs = all.map(([lng]) => lng * xScale);
+  const ys = all.map(([, lat]) => lat);
+  const minX = Math.min(...xs);
+  const maxY = Math.max(...ys);
+  const spanX = Math.max(Math.max(...xs) - minX, 1e-6);
+  const spanY = Math.max(maxY - Math.min(...ys), 1e-6);
+  const scale = Math.min((MAP_WIDTH - 2 * margin) / spanX, (MAP_HEIGHT - 2 * margin) / spanY);
+  const project = (lng: number, lat: number) =>
+    `${(margin + (lng * xScale - minX) * scale).toFixed(1)},${(margin + (maxY - lat) * scale).toFixed(1)}`;
+
+  const lines = paths.map(({ day, points }) =>
+    `<polyline points="${points.map(([lng, lat]) => project(lng, lat)).join(" ")}" fill="none" stroke="${dayColor(day)}" stroke-width="3" stroke-linejoin="round" />`
+  );
+  const stops = tour.sights.map((stop) => {
+    const [x, y] = project(stop.longitude, stop.latitude).split(",");
+    return `<circle cx="${x}" cy="${y}" r="10" fill="#DC2626" stroke="#FFFFFF" stroke-width="2" />` +
+      `<text x="${x}" y="${y}" dy="4" text-anchor="middle" font-size="11" font-weight="bold" fill="#FFFFFF">${stop.order}</text>`;
+  });
+  let start = "";
+  if (tour.start) {
+    const [x, y] = project(tour.start.longitude, tour.start.latitude).split(",").map(Number);
+    start = `<rect x="${x - 7}" y="${y - 7}" width="14" height="14" fill="#16A34A" stroke="#FFFFFF" stroke-width="2" />`;
+  }
+
+  return `<svg class="map" viewBox="0 0 ${MAP_WIDTH} ${MAP_HEIGHT}" xmlns="http://www.w3.org/2000/svg">
+  <rect width="100%" height="100%" fill="#F1F5F9" />
+  ${lines.join("\n  ")}
+  ${start}
+  ${stops.join("\n  ")}
+</svg>`;
+}
+
+/* --------------------------------- Helpers --------------------------------- */
+
+function dayColor(day: TourDay): string {
+  return DAY_COLORS[(day.day - 1) % DAY_COLORS.length];
+}
+
+// Every n-th point, always keeping the first and last
+function thin<T>(points: T[], max: number): T[] {
+  if (points.length <= max) return points;
+  const step = (points.length - 1) / (max - 1);
+  return Array.from({ length: max }, (_, index) => points[Math.round(index * step)]);
+}
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = Math.round(minutes % 60);
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+}
+
+function paragraphs(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, "<br />")}</p>`)
+    .join("");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const STYLES = `
+  @page { margin: 18mm 16mm; }
+  body { font-family: -apple-system, "Helvetica Neue", Roboto, Arial, sans-serif; color: #1F2937; font-size: 12pt; line-height: 1.45; margin: 0; }
+  h1 { font-size: 28pt; margin: 0 0 8px; }
+  h2 { font-size: 20pt; margin: 0 0 4px; }
+  h3 { font-size: 14pt; margin: 0; }
+  .cover { text-align: center; }
+  .cover .date { font-size: 13pt; margin: 0 0 4px; }
+  .facts { color: #6B7280; margin: 0 0 16px; }
+  .legend, .endpoints { color: #6B7280; font-size: 10pt; }
+  .map { display: block; width: 100%; max-height: 120mm; object-fit: contain; border-radius: 8px; margin: 16px 0; }
+  .day { page-break-before: always; }
+  .stop { page-break-inside: avoid; margin: 16px 0 8px; }
+  .stop-header { display: flex; align-items: center; gap: 10px; margin-bottom: 8px; }
+  .badge { display: inline-block; min-width: 26px; height: 26px; line-height: 26px; border-radius: 13px; background: #2563EB; color: #FFFFFF; text-align: center; font-weight: bold; }
+  .meta { color: #6B7280; font-size: 10pt; margin: 2px 0 0; }
+  .photo { display: block; width: 100%; max-height: 70mm; object-fit: cover; border-radius: 8px; margin-bottom: 8px; }
+  blockquote { margin: 8px 0; padding: 4px 12px; border-left: 3px solid #2563EB; background: #F8FAFC; font-style: italic; }
+  .sources { color: #6B7280; font-size: 9pt; margin: 0 0 8px; }
+  .way { color: #2563EB; font-size: 10pt; margin: 4px 0; }
+`;
@@ -0,0 +1,182 @@
+// utils/tour-export.ts
+// Tours as files for other navigation apps and GIS tools: GPX (waypoints plus one route per
+// day), KML (placemarks with descriptions and the day lines) and a GeoJSON FeatureCollection.
+// Files are written to the cache directory and handed to the system share sheet.
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+
+import { Tour, TourDay, TourPoint, TourStop, getTourDays } from "@/stores/tour-store";
+
+export type TourFileFormat = "gpx" | "kml" | "geojson";
+
+const CREATOR = "SightExplorer Voice Guide";
+
+const FILE_TYPES: Record<TourFileFormat, { extension: string; mimeType: string; uti: string }> = {
+  gpx: { extension: "gpx", mimeType: "application/gpx+xml", uti: "com.topografix.gpx" },
+  kml: { extension: "kml", mimeType: "application/vnd.google-earth.kml+xml", uti: "com.google.earth.kml" },
+  geojson: { extension: "geojson", mimeType: "application/geo+json", uti: "public.json" },
+};
+
+export async function shareTourFile(tour: Tour, format: TourFileFormat): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) throw new Error("Sharing files isn't available on this device.");
+
+  const type = FILE_TYPES[format];
+  const uri = `${FileSystem.cacheDirectory}${fileNameFor(tour)}.${type.extension}`;
+  await FileSystem.writeAsStringAsync(uri, formatTour(tour, format));
+  await Sharing.shareAsync(uri, { mimeType: type.mimeType, UTI: type.uti, dialogTitle: tour.name });
+}
+
+export function formatTour(tour: Tour, format: TourFileFormat): string {
+  switch (format) {
+    case "gpx": return toGpx(tour);
+    case "kml": return toKml(tour);
+    case "geojson": return JSON.stringify(toGeoJson(tour), null, 2);
+  }
+}
+
+/* ----------------------------------- GPX ----------------------------------- */
+
+export function toGpx(tour: Tour): string {
+  const waypoints = tour.sights.map((stop) =>
+    `  <wpt lat="${stop.latitude}" lon="${stop.longitude}">\n` +
+    `    <name>${escapeXml(stop.name)}</name>\n` +
+    (stop.briefDescription ? `    <desc>${escapeXml(stop.briefDescription)}</desc>\n` : "") +
+    `    <type>${escapeXml(stop.category)}</type>\n` +
+    `  </wpt>`
+  );
+
+  const routes = getTourDays(tour).map((day) => {
+    const points = routePoints(tour, day).map((point) =>
+      `    <rtept lat="${point.latitude}" lon="${point.longitude}"><name>${escapeXml(point.name)}</name></rtept>`
+    );
+    return `  <rte>\n    <name>${escapeXml(dayName(tour, day))}</name>\n${points.join("\n")}\n  </rte>`;
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `  <metadata>`,
+    `    <name>${escapeXml(tour.name)}</name>`,
+    `    <time>${new Date(tour.createdAt).toISOString()}</time>`,
+    `  </metadata>`,
+    ...waypoints,
+    ...routes,
+    `</gpx>`,
+  ].join("\n");
+}
+
+/* ----------------------------------- KML ----------------------------------- */
+
+export function toKml(tour: Tour): string {
+  const placemarks = tour.sights.map((stop) =>
+    `    <Placemark>\n` +
+    `      <name>${escapeXml(`${stop.order}. ${stop.name}`)}</name>\n` +
+    `      <description>${escapeXml(describeStop(stop))}</description>\n` +
+    `      <Point><coordinates>${stop.longitude},${stop.latitude}</coordinates></Point>\n` +
+    `    </Placemark>`
+  );
+
+  const lines = getTourDays(tour).map((day) =>
+    `    <Placemark>\n` +
+    `      <name>${escapeXml(dayName(tour, day))}</name>\n` +
+    `      <LineString><coordinates>${dayPath(tour, day).map(([lng, lat]) => `${lng},${lat}`).join(" ")}</coordinates></LineString>\n` +
+    `    </Placemark>`
+  );
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2">`,
+    `  <Document>`,
+    `    <name>${escapeXml(tour.name)}</name>`,
+    ...placemarks,
+    ...lines,
+    `  </Document>`,
+    `</kml>`,
+  ].join("\n");
+}
+
+/* --------------------------------- GeoJSON --------------------------------- */
+
+export function toGeoJson(tour: Tour) {
+  const days = getTourDays(tour);
+  const stops = days.flatMap((day) =>
+    day.sights.map((stop) => ({
+      type: "Feature" as const,
+      geometry: { type: "Point" as const, coordinates: [stop.longitude, stop.latitude] },
+      properties: {
+        kind: "stop",
+        id: stop.id.toString(),
+        order: stop.order,
+        day: day.day,
+        name: stop.name,
+        category: stop.category,
+        description: stop.briefDescription || undefined,
+        plannedArrival: stop.plannedArrival ? new Date(stop.plannedArrival).toISOString() : undefined,
+        plannedDeparture: stop.plannedDeparture ? new Date(stop.plannedDeparture).toISOString() : undefined,
+      },
+    }))
+  );
+
+  const routes = days.map((day) => ({
+    type: "Feature" as const,
+    geometry: { type: "LineString" as const, coordinates: dayPath(tour, day) },
+    properties: {
+      kind: "route",
+      day: day.day,
+      name: dayName(tour, day),
+      distanceKm: Math.round(day.totalDistance * 100) / 100,
+      durationMinutes: day.estimatedDuration,
+    },
+  }));
+
+  return {
+    type: "FeatureCollection" as const,
+    name: tour.name,
+    features: [...stops, ...routes],
+  };
+}
+
+/* --------------------------------- Helpers --------------------------------- */
+
+// Start, stops and end of a day, as a navigation app should visit them
+function routePoints(tour: Tour, day: TourDay): TourPoint[] {
+  return [
+    ...(tour.start ? [{ ...tour.start, name: tour.start.name || "Start" }] : []),
+    ...day.sights.map((stop) => ({ name: stop.name, latitude: stop.latitude, longitude: stop.longitude })),
+    ...(tour.end ? [{ ...tour.end, name: tour.end.name || "End" }] : []),
+  ];
+}
+
+// [lng, lat] pairs along the streets where the routing provider returned them, else straight
+export function dayPath(tour: Tour, day: TourDay): [number, number][] {
+  const toPair = (point: { latitude: number; longitude: number }): [number, number] => [point.longitude, point.latitude];
+  const path: [number, number][] = [];
+  if (tour.start) path.push(toPair(tour.start), ...(day.startLeg?.geometry ?? []).map(toPair));
+  day.sights.forEach((stop, index) => {
+    path.push(toPair(stop));
+    if (index < day.sights.length - 1) path.push(...(stop.routeToNext ?? []).map(toPair));
+  });
+  if (tour.end) path.push(...(day.endLeg?.geometry ?? []).map(toPair), toPair(tour.end));
+  return path;
+}
+
+function dayName(tour: Tour, day: TourDay): string {
+  return getTourDays(tour).length > 1 ? `${tour.name} – Day ${day.day}` : tour.name;
+}
+
+function describeStop(stop: TourStop): string {
+  return [stop.category, stop.briefDescription].filter(Boolean).join(" – ");
+}
+
+function fileNameFor(tour: Tour): string {
+  return tour.name.replace(/[\s\\/:*?"<>|#%]+/g, "-").replace(/^-+|-+$/g, "") || "tour";
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,228 @@
+// utils/tour-import.ts
+// Tours from GPX and GeoJSON files made by other apps (or exported by this one). Each
+// waypoint / point feature becomes a stop: a sight the app already knows when one is at the
+// same place, otherwise a new sight made from the file. Legs are straight lines.
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+
+import { useSightsStore } from "@/stores/sights-store";
+import { Tour, TourPoint, buildStraightLineTour } from "@/stores/tour-store";
+import { Sight } from "@/types/sight";
+import { hashString } from "./hash";
+import { PLACEHOLDER_IMAGE, isSamePlace } from "./sight-merge";
+import { findKnownSight } from "./sight-lookup";
+
+// A point of interest read from a file, in visiting order
+export interface ImportedStop {
+  id?: string;          // the sight id, in files exported by this app
+  name: string;
+  latitude: number;
+  longitude: number;
+  category?: string;
+  description?: string;
+  day: number;
+}
+
+export interface ImportedTour {
+  name?: string;
+  stops: ImportedStop[];
+}
+
+// Lets the user pick a file; undefined when they cancel
+export async function pickTourFile(): Promise<Tour | undefined> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ["application/gpx+xml", "application/geo+json", "application/json", "*/*"],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || !result.assets?.[0]) return undefined;
+
+  const file = result.assets[0];
+  const content = await FileSystem.readAsStringAsync(file.uri);
+  const fallbackName = file.name.replace(/\.[^.]+$/, "");
+  return tourFromFile(content, fallbackName);
+}
+
+export function tourFromFile(content: string, fallbackName: string): Tour {
+  const imported = content.trimStart().startsWith("<") ? parseGpx(content) : parseGeoJson(content);
+  if (imported.stops.length === 0) throw new Error("The file has no waypoints or points to visit.");
+
+  const days = new Map<number, Sight[]>();
+  for (const stop of imported.stops) {
+    days.set(stop.day, [...(days.get(stop.day) ?? []), matchSight(stop)]);
+  }
+  const orderedDays = [...days.entries()].sort(([a], [b]) => a - b).map(([, sights]) => sights);
+
+  // Files carry no start point: the tour starts and ends at the first stop
+  const first = orderedDays[0][0];
+  const start: TourPoint = { name: "Start", latitude: first.latitude, longitude: first.longitude };
+
+  return buildStraightLineTour({
+    id: `imported-${hashString(content)}`,
+    name: imported.name || fallbackName || "Imported Tour",
+    days: orderedDays,
+    start,
+    end: start,
+  });
+}
+
+/* ---------------------------------- GPX ------------------------------------ */
+
+// Routes give the order and the days, one day per route. Their points that are waypoints
+// are the stops (the others are start and end points, as in this app's export), with the
+// waypoint's details; waypoints no route visits follow on the last day. Without waypoints
+// every route point is a stop, and without routes the waypoints are one day.
+// Tracks are recorded paths, not places to visit, and are ignored.
+export function parseGpx(xml: string): ImportedTour {
+  if (!/<gpx[\s>]/.test(xml)) throw new Error("This isn't a GPX file.");
+
+  // GPX 1.1 names the file in <metadata>, GPX 1.0 directly under <gpx>
+  const header = elementContent(xml, "metadata") ?? xml.split(/<(?:wpt|rte|trk)\b/)[0];
+  const name = textOf(header, "name");
+  const waypoints = points(xml, "wpt");
+  const routes = elementContents(xml, "rte").map((route) => points(route, "rtept"));
+
+  if (waypoints.length === 0) {
+    return { name, stops: routes.flatMap((route, index) => route.map((point) => ({ ...point, day: index + 1 }))) };
+  }
+
+  const visited = new Set<Omit<ImportedStop, "day">>();
+  const stops: ImportedStop[] = [];
+  routes.forEach((route, index) => {
+    for (const point of route) {
+      const waypoint = waypoints.find((w) => !visited.has(w) && isSameCoordinate(w, point));
+      if (!waypoint) continue;
+      visited.add(waypoint);
+      stops.push({ ...waypoint, day: index + 1 });
+    }
+  });
+  const lastDay = stops.length > 0 ? stops[stops.length - 1].day : 1;
+  for (const waypoint of waypoints) {
+    if (!visited.has(waypoint)) stops.push({ ...waypoint, day: lastDay });
+  }
+  return { name, stops };
+}
+
+function isSameCoordinate(a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }): boolean {
+  return Math.abs(a.latitude - b.latitude) < 1e-7 && Math.abs(a.longitude - b.longitude) < 1e-7;
+}
+
+function points(xml: string, tag: string): Omit<ImportedStop, "day">[] {
+  const pattern = new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, "g");
+  const result: Omit<ImportedStop, "day">[] = [];
+  for (const match of xml.matchAll(pattern)) {
+    const latitude = parseFloat(attribute(match[1], "lat") ?? "");
+    const longitude = parseFloat(attribute(match[1], "lon") ?? "");
+    if (!isFinite(latitude) || !isFinite(longitude)) continue;
+    const body = match[2] ?? "";
+    result.push({
+      name: textOf(body, "name") ?? `Point ${result.length + 1}`,
+      latitude,
+      longitude,
+      category: textOf(body, "type"),
+      description: textOf(body, "desc") ?? textOf(body, "cmt"),
+    });
+  }
+  return result;
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  return attributes.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`))?.[1];
+}
+
+function elementContent(xml: string, tag: string): string | undefined {
+  return elementContents(xml, tag)[0];
+}
+
+function elementContents(xml: string, tag: string): string[] {
+  return [...xml.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, "g"))].map((match) => match[1]);
+}
+
+function textOf(xml: string, tag: string): string | undefined {
+  const content = elementContent(xml, tag);
+  if (content === undefined) return undefined;
+  const text = unescapeXml(content.replace(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/, "$1")).trim();
+  return text || undefined;
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, "&");
+}
+
+/* -------------------------------- GeoJSON ---------------------------------- */
+
+// Point features are the stops, ordered by `order` (and split by `day`) when the file has them
+export function parseGeoJson(json: string): ImportedTour {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("This isn't a GPX or GeoJSON file.");
+  }
+  if (!isRecord(data)) return { stops: [] };
+  const features: unknown[] =
+    data.type === "FeatureCollection" && Array.isArray(data.features) ? data.features : data.type === "Feature" ? [data] : [];
+
+  const stops = features
+    .flatMap((feature, index) => {
+      if (!isRecord(feature) || !isRecord(feature.geometry) || feature.geometry.type !== "Point") return [];
+      const coordinates = feature.geometry.coordinates;
+      if (!Array.isArray(coordinates)) return [];
+      const [longitude, latitude] = coordinates;
+      if (typeof latitude !== "number" || typeof longitude !== "number" || !isFinite(latitude) || !isFinite(longitude)) return [];
+
+      const properties = isRecord(feature.properties) ? feature.properties : {};
+      const day = properties.day;
+      return [{
+        id: typeof properties.id === "string" ? properties.id : undefined,
+        name: String(properties.name ?? properties.title ?? `Point ${index + 1}`),
+        latitude,
+        longitude,
+        category: typeof properties.category === "string" ? properties.category : undefined,
+        description: typeof properties.description === "string" ? properties.description : undefined,
+        day: typeof day === "number" && Number.isInteger(day) && day > 0 ? day : 1,
+        order: typeof properties.order === "number" ? properties.order : index,
+      }];
+    })
+    .sort((a, b) => a.order - b.order)
+    .map(({ order, ...stop }) => stop);
+
+  return { name: typeof data.name === "string" ? data.name : undefined, stops };
+}
+
+function isRecord(raw: unknown): raw is Record<string, unknown> {
+  return typeof raw === "object" && raw !== null && !Array.isArray(raw);
+}
+
+/* --------------------------------- Sights ---------------------------------- */
+
+// The sight the app already knows at this place, or a new one made from the file
+function matchSight(stop: ImportedStop): Sight {
+  const known = stop.id ? findKnownSight(stop.id) : undefined;
+  if (known) return known;
+
+  const description = stop.description ?? "";
+  const imported: Sight = {
+    id: `local:import-${hashString(`${stop.name}|${stop.latitude}|${stop.longitude}`)}`,
+    name: stop.name,
+    category: stop.category ?? "Attraction",
+    latitude: stop.latitude,
+    longitude: stop.longitude,
+    imageUrl: PLACEHOLDER_IMAGE,
+    briefDescription: description,
+    fullDescription: description,
+    briefDescriptionDE: description,
+    fullDescriptionDE: description,
+    tier: 2,
+    source: "local",
+  };
+
+  const { allSights, favorites } = useSightsStore.getState();
+  const snapshots = favorites.flatMap((f) => (f.sight ? [f.sight] : []));
+  return [...allSights, ...snapshots].find((sight) => isSamePlace(sight, imported)) ?? imported;
+}
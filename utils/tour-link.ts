@@ -0,0 +1,132 @@
+// utils/tour-link.ts
+// Planned tours as links (myapp://tour/<encoded>) a guide can send to a group. The link holds
+// what's needed to walk the tour: stop ids, names and coordinates, the day split and the
+// settings. Everything else comes from the recipient's cache or is looked up when a stop is opened.
+import * as Linking from "expo-linking";
+
+import { Tour, TourPoint, buildStraightLineTour } from "@/stores/tour-store";
+import { AudioLength, TransportMode } from "@/stores/settings-store";
+import { Sight } from "@/types/sight";
+import { hashString } from "./hash";
+import { PLACEHOLDER_IMAGE } from "./sight-merge";
+import { findKnownSight } from "./sight-lookup";
+
+// Bump when the layout below changes; older links are then rejected with a clear message
+const LINK_VERSION = 1;
+// Coordinates are stored as integer offsets from the tour start at this scale (≈ 1 m)
+const COORDINATE_SCALE = 1e5;
+
+const TRANSPORT_MODES: TransportMode[] = ["walk", "taxi", "public", "mix"];
+const DETAIL_LEVELS: AudioLength[] = ["brief", "medium", "expert"];
+
+// [version, name, mode, detail, [startLat, startLng], [dLat, dLng] | 0 (round trip), days]
+// with days = [[stopId, dLat, dLng, name], ...][]
+type EncodedStop = [string, number, number, string];
+type EncodedTour = [number, string, number, number, [number, number], [number, number] | 0, EncodedStop[][]];
+
+export function createTourLink(tour: Tour): string {
+  return Linking.createURL(`/tour/${encodeTour(tour)}`);
+}
+
+export function encodeTour(tour: Tour): string {
+  const origin = tour.start ?? tour.sights[0];
+  const offset = (point: { latitude: number; longitude: number }): [number, number] => [
+    Math.round((point.latitude - origin.latitude) * COORDINATE_SCALE),
+    Math.round((point.longitude - origin.longitude) * COORDINATE_SCALE),
+  ];
+  const days = tour.days?.length ? tour.days.map((day) => day.sights) : [tour.sights];
+  const isRoundTrip = !tour.end || (tour.end.latitude === origin.latitude && tour.end.longitude === origin.longitude);
+
+  const encoded: EncodedTour = [
+    LINK_VERSION,
+    tour.name,
+    Math.max(0, TRANSPORT_MODES.indexOf(tour.transportMode ?? "walk")),
+    Math.max(0, DETAIL_LEVELS.indexOf(tour.detailLevel ?? "medium")),
+    [roundCoordinate(origin.latitude), roundCoordinate(origin.longitude)],
+    isRoundTrip ? 0 : offset(tour.end!),
+    days.map((stops) => stops.map((stop): EncodedStop => [stop.id.toString(), ...offset(stop), stop.name])),
+  ];
+  return toBase64Url(JSON.stringify(encoded));
+}
+
+// A saved-tour copy of the shared tour; the id is derived from the link so importing twice updates it
+export function decodeTour(encoded: string): Tour {
+  let data: unknown;
+  try {
+    data = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    throw new Error("This tour link is damaged or incomplete.");
+  }
+  if (!Array.isArray(data) || data.length < 7) throw new Error("This tour link is damaged or incomplete.");
+  if (data[0] !== LINK_VERSION) throw new Error("This tour link was made with a different app version.");
+
+  const [, name, modeIndex, detailIndex, startCoordinates, endOffset, encodedDays] = data as EncodedTour;
+  if (!isCoordinatePair(startCoordinates) || !Array.isArray(encodedDays)) {
+    throw new Error("This tour link is damaged or incomplete.");
+  }
+
+  const [startLatitude, startLongitude] = startCoordinates;
+  const at = ([dLat, dLng]: [number, number]) => ({
+    latitude: roundCoordinate(startLatitude + dLat / COORDINATE_SCALE),
+    longitude: roundCoordinate(startLongitude + dLng / COORDINATE_SCALE),
+  });
+  const start: TourPoint = { name: "Start", latitude: startLatitude, longitude: startLongitude };
+  const end: TourPoint = isCoordinatePair(endOffset) ? { name: "End", ...at(endOffset) } : start;
+
+  const days = encodedDays.map((encodedStops) =>
+    (Array.isArray(encodedStops) ? encodedStops : [])
+      .filter((stop): stop is EncodedStop =>
+        Array.isArray(stop) && typeof stop[0] === "string" && typeof stop[3] === "string" && isCoordinatePair([stop[1], stop[2]])
+      )
+      .map(([id, dLat, dLng, stopName]) => toSight(id, stopName, at([dLat, dLng])))
+  );
+  if (days.every((stops) => stops.length === 0)) throw new Error("This tour link has no stops.");
+
+  // Straight-line legs; the planner's street routing isn't needed to follow a shared tour
+  return buildStraightLineTour({
+    id: `shared-${hashString(encoded)}`,
+    name: typeof name === "string" && name ? name : "Shared Tour",
+    days,
+    start,
+    end,
+    transportMode: TRANSPORT_MODES[modeIndex] ?? "walk",
+    detailLevel: DETAIL_LEVELS[detailIndex] ?? "medium",
+  });
+}
+
+// The recipient's cached copy of the sight if there is one, otherwise just what the link says
+function toSight(id: string, name: string, position: { latitude: number; longitude: number }): Sight {
+  const sight: Sight = findKnownSight(id) ?? {
+    id,
+    name,
+    category: "Attraction",
+    ...position,
+    imageUrl: PLACEHOLDER_IMAGE,
+    briefDescription: "",
+    fullDescription: "",
+    briefDescriptionDE: "",
+    fullDescriptionDE: "",
+    tier: 2,
+  };
+  return { ...sight, ...position };
+}
+
+function isCoordinatePair(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length === 2 && value.every((n) => typeof n === "number" && isFinite(n));
+}
+
+function roundCoordinate(value: number): number {
+  return Math.round(value * COORDINATE_SCALE) / COORDINATE_SCALE;
+}
+
+// URL-safe base64 of the UTF-8 bytes, so names with umlauts survive
+function toBase64Url(text: string): string {
+  const bytes = unescape(encodeURIComponent(text));
+  return btoa(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  return decodeURIComponent(escape(atob(padded)));
+}
@@ -0,0 +1,192 @@
+// utils/tour-plan.ts
+// Tour plans written by a language model. The model gets the candidate sights with their ids
+// and answers with JSON: the ids to visit in order, why each was picked and how long to stay.
+// Its answer is never trusted as is: it is parsed against the schema below, checked against
+// the distance, time and stop budgets, and repaired (unknown or repeated ids dropped, dwell
+// times clamped, the least worthwhile stops removed until the budgets fit).
+import { Sight } from "@/types/sight";
+import { LatLng, distanceBetween } from "./geo";
+
+export interface TourPlanRequest {
+  start: LatLng & { name: string };
+  end: LatLng & { name: string };
+  candidates: Sight[];
+  value: (sight: Sight) => number;
+  maxDistanceKm: number;
+  maxMinutes: number;
+  minutesPerKm: number;
+  defaultDwellMinutes: number;
+  maxStops: number;
+  numberOfDays: number;
+  transportMode: string;
+  interests?: string;
+}
+
+export interface PlannedStop {
+  id: string;
+  rationale: string;
+  dwellMinutes: number;
+}
+
+export interface TourPlan {
+  stops: PlannedStop[];
+}
+
+export const MIN_DWELL_MINUTES = 5;
+export const MAX_DWELL_MINUTES = 180;
+// Fewer stops than this after repair isn't a plan worth keeping
+export const MIN_PLANNED_STOPS = 2;
+
+/* --------------------------------- Prompt ---------------------------------- */
+
+export const TOUR_PLAN_SYSTEM_PROMPT =
+  "You are an expert tour guide and route planner. You only answer with a single JSON object " +
+  "that follows the requested schema exactly, without markdown or any other text.";
+
+export function buildTourPlanPrompt(request: TourPlanRequest): string {
+  const { start, end, candidates } = request;
+  const isRoundTrip = start.latitude === end.latitude && start.longitude === end.longitude;
+  const lines = candidates.map((sight) =>
+    `${sight.id} | ${sight.name} | ${sight.category} | ${sight.latitude.toFixed(5)},${sight.longitude.toFixed(5)} | ` +
+    `${distanceBetween(start, sight).toFixed(2)} km from start`
+  );
+
+  return `Plan a ${request.transportMode} tour over ${request.numberOfDays} day(s).
+Start: ${start.latitude.toFixed(5)},${start.longitude.toFixed(5)}
+End: ${isRoundTrip ? "back at the start" : `${end.name} (${end.latitude.toFixed(5)},${end.longitude.toFixed(5)})`}
+${request.interests ? `The visitor is particularly interested in: ${request.interests}. Prefer sights that match.\n` : ""}
+Budgets for the whole tour:
+- at most ${request.maxStops} stops
+- at most ${request.maxDistanceKm.toFixed(1)} km in total, measured in straight lines from the start through the stops to the end
+- at most ${request.maxMinutes} minutes in total, counting ${request.minutesPerKm} minutes per km of travel plus the time spent at each stop
+A typical visit takes about ${request.defaultDwellMinutes} minutes; suggest more for major sights and less for quick ones.
+
+Candidate sights (id | name | category | coordinates | distance):
+${lines.join("\n")}
+
+Order the stops to avoid backtracking and group nearby sights. Use each id at most once and only ids from the list.
+Answer with JSON in exactly this shape:
+{"stops": [{"id": "<candidate id>", "rationale": "<one sentence on why this stop>", "dwellMinutes": <minutes to spend there, ${MIN_DWELL_MINUTES}-${MAX_DWELL_MINUTES}>}]}`;
+}
+
+// Follow-up when the answer couldn't be read, so the model can correct itself once
+export function buildTourPlanRetryPrompt(error: string): string {
+  return `Your answer could not be used: ${error} Answer again with only the JSON object in the requested shape.`;
+}
+
+/* --------------------------------- Schema ---------------------------------- */
+
+// The plan in the model's answer; throws when it isn't JSON of the requested shape
+export function parseTourPlan(text: string): TourPlan {
+  // Models sometimes wrap JSON in a code fence or add a sentence around it
+  const json = text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1);
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The answer is not valid JSON.");
+  }
+  if (!isRecord(data) || !Array.isArray(data.stops)) throw new Error('The answer has no "stops" array.');
+
+  const stops = data.stops.map((stop: unknown, index: number): PlannedStop => {
+    if (!isRecord(stop) || (typeof stop.id !== "string" && typeof stop.id !== "number")) {
+      throw new Error(`Stop ${index + 1} has no "id".`);
+    }
+    const dwellMinutes = Number(stop.dwellMinutes);
+    if (!isFinite(dwellMinutes)) throw new Error(`Stop ${index + 1} has no numeric "dwellMinutes".`);
+    return {
+      id: String(stop.id),
+      rationale: typeof stop.rationale === "string" ? stop.rationale.trim() : "",
+      dwellMinutes,
+    };
+  });
+  return { stops };
+}
+
+function isRecord(raw: unknown): raw is Record<string, unknown> {
+  return typeof raw === "object" && raw !== null && !Array.isArray(raw);
+}
+
+/* ------------------------------- Constraints ------------------------------- */
+
+// What's wrong with a plan; empty when it can be used as is
+export function checkTourPlan(plan: TourPlan, request: TourPlanRequest): string[] {
+  const issues: string[] = [];
+  const known = new Set(request.candidates.map((sight) => String(sight.id)));
+  const seen = new Set<string>();
+
+  for (const stop of plan.stops) {
+    if (!known.has(stop.id)) issues.push(`Unknown sight id "${stop.id}".`);
+    else if (seen.has(stop.id)) issues.push(`Sight "${stop.id}" is visited twice.`);
+    seen.add(stop.id);
+    if (stop.dwellMinutes < MIN_DWELL_MINUTES || stop.dwellMinutes > MAX_DWELL_MINUTES) {
+      issues.push(`Dwell time of ${stop.dwellMinutes} minutes at "${stop.id}" is out of range.`);
+    }
+  }
+  if (issues.length > 0) return issues;
+
+  if (plan.stops.length < MIN_PLANNED_STOPS) issues.push(`Only ${plan.stops.length} stop(s) planned.`);
+  if (plan.stops.length > request.maxStops) issues.push(`${plan.stops.length} stops exceed the limit of ${request.maxStops}.`);
+
+  const { distance, minutes } = measurePlan(plan, request);
+  if (distance > request.maxDistanceKm) {
+    issues.push(`The route is ${distance.toFixed(1)} km, more than ${request.maxDistanceKm.toFixed(1)} km.`);
+  }
+  if (minutes > request.maxMinutes) {
+    issues.push(`The tour takes ${Math.round(minutes)} minutes, more than ${request.maxMinutes}.`);
+  }
+  return issues;
+}
+
+// The closest usable plan: valid ids once each, dwell times in range, within the budgets
+export function repairTourPlan(plan: TourPlan, request: TourPlanRequest): TourPlan {
+  const known = new Set(request.candidates.map((sight) => String(sight.id)));
+  const seen = new Set<string>();
+  let stops = plan.stops
+    .filter((stop) => {
+      if (!known.has(stop.id) || seen.has(stop.id)) return false;
+      seen.add(stop.id);
+      return true;
+    })
+    .map((stop) => ({
+      ...stop,
+      dwellMinutes: Math.round(Math.min(MAX_DWELL_MINUTES, Math.max(MIN_DWELL_MINUTES, stop.dwellMinutes))),
+    }))
+    .slice(0, request.maxStops);
+
+  // Drop the stop that costs the most distance and time for what it's worth until the budgets fit
+  const byId = new Map(request.candidates.map((sight) => [String(sight.id), sight]));
+  while (stops.length > 0 && isOverBudget({ stops }, request)) {
+    const { distance, minutes } = measurePlan({ stops }, request);
+    let worst = 0;
+    let worstRatio = -Infinity;
+    stops.forEach((stop, index) => {
+      const without = measurePlan({ stops: stops.filter((_, i) => i !== index) }, request);
+      const saved = (distance - without.distance) / request.maxDistanceKm + (minutes - without.minutes) / request.maxMinutes;
+      const ratio = saved / Math.max(request.value(byId.get(stop.id)!), 1e-6);
+      if (ratio > worstRatio) {
+        worst = index;
+        worstRatio = ratio;
+      }
+    });
+    stops = stops.filter((_, index) => index !== worst);
+  }
+
+  return { stops };
+}
+
+function isOverBudget(plan: TourPlan, request: TourPlanRequest): boolean {
+  const { distance, minutes } = measurePlan(plan, request);
+  return distance > request.maxDistanceKm || minutes > request.maxMinutes;
+}
+
+// Straight-line length from the start through the stops to the end, and travel plus dwell time
+function measurePlan(plan: TourPlan, request: TourPlanRequest): { distance: number; minutes: number } {
+  const byId = new Map(request.candidates.map((sight) => [String(sight.id), sight]));
+  const points: LatLng[] = [request.start, ...plan.stops.map((stop) => byId.get(stop.id)!).filter(Boolean), request.end];
+
+  let distance = 0;
+  for (let i = 1; i < points.length; i++) distance += distanceBetween(points[i - 1], points[i]);
+  const dwell = plan.stops.reduce((sum, stop) => sum + stop.dwellMinutes, 0);
+  return { distance, minutes: distance * request.minutesPerKm + dwell };
+}
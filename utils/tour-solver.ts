@@ -0,0 +1,250 @@
+// utils/tour-solver.ts
+// Offline orienteering solver: pick the subset of candidates with the highest
+// total value whose route from `start` to `end` fits the distance, time and stop
+// budgets, and order it as short as possible.
+//
+// Greedy value/cost insertion builds a first route, 2-opt and or-opt shorten it
+// (which frees budget for more insertions), and seeded ruin-and-recreate rounds
+// escape local optima. The same problem and seed always give the same route.
+import { LatLng, distanceBetween } from "./geo";
+
+export interface OrienteeringProblem<T extends LatLng> {
+  start: LatLng;
+  end: LatLng;
+  candidates: T[];
+  value: (candidate: T) => number;
+  maxDistanceKm: number;
+  maxMinutes?: number;
+  minutesPerKm: number;
+  minutesPerStop: number;
+  maxStops?: number;
+  seed?: number;
+  iterations?: number;
+  distance?: (a: LatLng, b: LatLng) => number;
+}
+
+interface Context {
+  n: number;               // number of candidates; index n is start, n + 1 is end
+  dist: number[][];
+  values: number[];
+  maxDistanceKm: number;
+  maxMinutes: number;
+  minutesPerKm: number;
+  minutesPerStop: number;
+  maxStops: number;
+}
+
+const DEFAULT_SEED = 1;
+const DEFAULT_ITERATIONS = 200;
+const EPSILON = 1e-9;
+
+export function solveOrienteering<T extends LatLng>(problem: OrienteeringProblem<T>): T[] {
+  const { candidates } = problem;
+  if (candidates.length === 0) return [];
+
+  const ctx = buildContext(problem);
+  const random = mulberry32(problem.seed ?? DEFAULT_SEED);
+  const iterations = problem.iterations ?? DEFAULT_ITERATIONS;
+
+  let best = improve(ctx, greedyInsert(ctx, [], () => 1));
+  let bestScore = score(ctx, best);
+
+  let current = best;
+  for (let i = 0; i < iterations && ctx.n > 0; i++) {
+    const ruined = ruin(current, random);
+    const noise = () => 0.8 + random() * 0.4;
+    const candidate = improve(ctx, greedyInsert(ctx, ruined, noise));
+    const candidateScore = score(ctx, candidate);
+
+    if (isBetter(candidateScore, bestScore)) {
+      best = candidate;
+      bestScore = candidateScore;
+    }
+    // Accept sideways moves so the search keeps walking, but restart from the best now and then
+    current = isBetter(candidateScore, score(ctx, current)) || random() < 0.1 ? candidate : best;
+  }
+
+  return best.map((index) => candidates[index]);
+}
+
+/* --------------------------------- Helpers --------------------------------- */
+
+function buildContext<T extends LatLng>(problem: OrienteeringProblem<T>): Context {
+  const distance = problem.distance ?? distanceBetween;
+  const points: LatLng[] = [...problem.candidates, problem.start, problem.end];
+  const dist = points.map((a) => points.map((b) => distance(a, b)));
+
+  return {
+    n: problem.candidates.length,
+    dist,
+    values: problem.candidates.map((c) => Math.max(0, problem.value(c))),
+    maxDistanceKm: problem.maxDistanceKm,
+    maxMinutes: problem.maxMinutes ?? Infinity,
+    minutesPerKm: problem.minutesPerKm,
+    minutesPerStop: problem.minutesPerStop,
+    maxStops: problem.maxStops ?? Infinity,
+  };
+}
+
+function routeDistance(ctx: Context, route: number[]): number {
+  let total = 0;
+  let previous = ctx.n;
+  for (const index of route) {
+    total += ctx.dist[previous][index];
+    previous = index;
+  }
+  return total + ctx.dist[previous][ctx.n + 1];
+}
+
+function isFeasible(ctx: Context, stops: number, distance: number): boolean {
+  if (stops > ctx.maxStops) return false;
+  if (distance > ctx.maxDistanceKm + EPSILON) return false;
+  return distance * ctx.minutesPerKm + stops * ctx.minutesPerStop <= ctx.maxMinutes + EPSILON;
+}
+
+function score(ctx: Context, route: number[]) {
+  return {
+    value: route.reduce((sum, index) => sum + ctx.values[index], 0),
+    distance: routeDistance(ctx, route),
+  };
+}
+
+function isBetter(a: { value: number; distance: number }, b: { value: number; distance: number }): boolean {
+  if (a.value > b.value + EPSILON) return true;
+  return Math.abs(a.value - b.value) <= EPSILON && a.distance < b.distance - EPSILON;
+}
+
+// Insert the candidate with the best value per added km until nothing fits anymore
+function greedyInsert(ctx: Context, initial: number[], noise: () => number): number[] {
+  const route = [...initial];
+  const used = new Set(route);
+  let distance = routeDistance(ctx, route);
+
+  while (true) {
+    let bestIndex = -1;
+    let bestPosition = -1;
+    let bestRatio = -Infinity;
+    let bestAdded = 0;
+
+    for (let candidate = 0; candidate < ctx.n; candidate++) {
+      if (used.has(candidate) || ctx.values[candidate] <= 0) continue;
+
+      for (let position = 0; position <= route.length; position++) {
+        const before = position === 0 ? ctx.n : route[position - 1];
+        const after = position === route.length ? ctx.n + 1 : route[position];
+        const added = ctx.dist[before][candidate] + ctx.dist[candidate][after] - ctx.dist[before][after];
+
+        if (!isFeasible(ctx, route.length + 1, distance + added)) continue;
+
+        // Stop time counts as distance so that cheap detours still pay for the visit
+        const cost = Math.max(added, 0) + ctx.minutesPerStop / Math.max(ctx.minutesPerKm, EPSILON);
+        const ratio = (ctx.values[candidate] / (cost + EPSILON)) * noise();
+        if (ratio > bestRatio) {
+          bestRatio = ratio;
+          bestIndex = candidate;
+          bestPosition = position;
+          bestAdded = added;
+        }
+      }
+    }
+
+    if (bestIndex < 0) return route;
+    route.splice(bestPosition, 0, bestIndex);
+    used.add(bestIndex);
+    distance += bestAdded;
+  }
+}
+
+// Shorten the route with 2-opt and or-opt, then use the freed budget for more stops
+function improve(ctx: Context, initial: number[]): number[] {
+  let route = initial;
+  while (true) {
+    route = orOpt(ctx, twoOpt(ctx, route));
+    const extended = greedyInsert(ctx, route, () => 1);
+    if (extended.length === route.length) return route;
+    route = extended;
+  }
+}
+
+function twoOpt(ctx: Context, initial: number[]): number[] {
+  const route = [...initial];
+  const node = (i: number) => (i < 0 ? ctx.n : i >= route.length ? ctx.n + 1 : route[i]);
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < route.length - 1; i++) {
+      for (let j = i + 1; j < route.length; j++) {
+        const a = node(i - 1);
+        const b = node(i);
+        const c = node(j);
+        const d = node(j + 1);
+        const delta = ctx.dist[a][c] + ctx.dist[b][d] - ctx.dist[a][b] - ctx.dist[c][d];
+        if (delta < -EPSILON) {
+          reverse(route, i, j);
+          improved = true;
+        }
+      }
+    }
+  }
+  return route;
+}
+
+function orOpt(ctx: Context, initial: number[]): number[] {
+  let route = [...initial];
+  let distance = routeDistance(ctx, route);
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let length = 1; length <= 3 && !improved; length++) {
+      for (let i = 0; i + length <= route.length && !improved; i++) {
+        const segment = route.slice(i, i + length);
+        const rest = [...route.slice(0, i), ...route.slice(i + length)];
+
+        for (let position = 0; position <= rest.length && !improved; position++) {
+          if (position === i) continue;
+          for (const piece of [segment, [...segment].reverse()]) {
+            const moved = [...rest.slice(0, position), ...piece, ...rest.slice(position)];
+            const movedDistance = routeDistance(ctx, moved);
+            if (movedDistance < distance - EPSILON) {
+              route = moved;
+              distance = movedDistance;
+              improved = true;
+              break;
+            }
+          }
+        }
+      }
+    }
+  }
+  return route;
+}
+
+// Drop a random contiguous block of stops
+function ruin(route: number[], random: () => number): number[] {
+  if (route.length === 0) return route;
+  const count = 1 + Math.floor(random() * Math.ceil(route.length / 3));
+  const from = Math.floor(random() * (route.length - count + 1));
+  return [...route.slice(0, from), ...route.slice(from + count)];
+}
+
+function reverse(route: number[], from: number, to: number) {
+  while (from < to) {
+    [route[from], route[to]] = [route[to], route[from]];
+    from++;
+    to--;
+  }
+}
+
+// Small deterministic PRNG so results are reproducible for a given seed
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
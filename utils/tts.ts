@@ -1,12 +1,21 @@
 // utils/tts.ts
-import { Audio } from "expo-av";
-import * as FileSystem from "expo-file-system";
 import { encode } from "base64-arraybuffer";
-import { useSettingsStore } from "@/stores/settings-store";
+import { useSettingsStore, VoiceStyle } from "@/stores/settings-store";
+import { PlayerTrack } from "@/stores/player-store";
+import { playTracks, enqueueTrack, stopPlayback } from "./audio-player";
+import { getAudioCacheKey, getCachedAudio, putCachedAudio } from "./audio-cache";
+import { getSpeechClient } from "./llm-client";
+import { stripCitationMarkers } from "./narration-sources";
 
-let currentSound: Audio.Sound | null = null;
+// Streamed narrations are spoken in pieces of whole sentences: a short first one so audio
+// starts quickly, longer ones after that to keep the number of TTS requests down
+const FIRST_CHUNK_CHARS = 60;
+const CHUNK_CHARS = 300;
 
-type VoiceStyle = "male" | "female" | "energetic" | "calm";
+export interface SynthesizedSpeech {
+  uri: string;
+  audioKey: string;
+}
 
 function pickOpenAIVoice(voiceStyle?: VoiceStyle) {
   switch (voiceStyle) {
@@ -18,94 +27,174 @@ function pickOpenAIVoice(voiceStyle?: VoiceStyle) {
   }
 }
 
-export async function speakNatural(
-  text: string,
-  opts?: { onStart?: () => void; onEnd?: () => void }
-) {
-  const { openAiApiKey, voiceStyle, language } = useSettingsStore.getState();
-  if (!text?.trim()) return;
-
-  // Ensure iOS plays in silent mode
-  try {
-    await Audio.setAudioModeAsync({
-      playsInSilentModeIOS: true,
-      staysActiveInBackground: false,
-      shouldDuckAndroid: true,
-    });
-  } catch {}
+// Audio for `text` from the narration cache, or rendered by the speech provider and cached.
+// `audioKey` (e.g. linked from a SavedContent entry) is tried first, so a saved
+// narration keeps its recorded voice. Returns null when neither works.
+export async function synthesizeSpeech(text: string, audioKey?: string): Promise<SynthesizedSpeech | null> {
+  const { voiceStyle, language } = useSettingsStore.getState();
+  // Citation markers are for reading, not listening
+  const spoken = stripCitationMarkers(text ?? "");
+  if (!spoken.trim()) return null;
 
-  // Stop previous sound, if any
-  if (currentSound) {
-    try { await currentSound.stopAsync(); await currentSound.unloadAsync(); } catch {}
-    currentSound = null;
+  if (audioKey) {
+    const uri = await getCachedAudio(audioKey);
+    if (uri) return { uri, audioKey };
   }
 
-  // Fallback path: no OpenAI key → use system TTS
-  if (!openAiApiKey) {
-    const Speech = await import("expo-speech");
-    opts?.onStart?.();
-    Speech.speak(text, {
-      language: language === "DE" ? "de-DE" : "en-US",
-      pitch: voiceStyle === "female" ? 1.1 : voiceStyle === "male" ? 0.95 : 1.0,
-      rate: 0.98,
-      onDone: () => opts?.onEnd?.(),
-      onStopped: () => opts?.onEnd?.(),
-    });
-    return;
-  }
+  // The cache key names the model, so audio from another provider isn't mistaken for this one's
+  const client = getSpeechClient();
+  if (!client?.speech || !client.speechModel) return null;
+
+  const voice = pickOpenAIVoice(voiceStyle);
+  const key = getAudioCacheKey({ text: spoken, voice, model: client.speechModel, language });
+  const cached = await getCachedAudio(key);
+  if (cached) return { uri: cached, audioKey: key };
 
   try {
-    // Fetch MP3 from OpenAI TTS
-    const res = await fetch("https://api.openai.com/v1/audio/speech", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${openAiApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini-tts",
-        voice: pickOpenAIVoice(voiceStyle as VoiceStyle),
-        input: text,
-        format: "mp3",
-      }),
-    });
-    if (!res.ok) throw new Error(`OpenAI TTS HTTP ${res.status}`);
-
-    const buf = await res.arrayBuffer();
-    const b64 = encode(buf);
-    const uri = FileSystem.cacheDirectory! + `narration_${Date.now()}.mp3`;
-    await FileSystem.writeAsStringAsync(uri, b64, { encoding: FileSystem.EncodingType.Base64 });
-
-    const { sound } = await Audio.Sound.createAsync({ uri }, { shouldPlay: true });
-    currentSound = sound;
-    opts?.onStart?.();
-
-    sound.setOnPlaybackStatusUpdate(async (status: any) => {
-      if (status?.didJustFinish) {
-        try { await sound.unloadAsync(); } catch {}
-        if (currentSound === sound) currentSound = null;
-        opts?.onEnd?.();
-      }
-    });
+    const buf = await client.speech({ input: spoken, voice });
+    const uri = await putCachedAudio(key, encode(buf));
+    return { uri, audioKey: key };
   } catch (e) {
-    console.warn("OpenAI TTS failed, falling back to expo-speech", e);
-    const Speech = await import("expo-speech");
-    opts?.onStart?.();
-    Speech.speak(text, {
-      language: language === "DE" ? "de-DE" : "en-US",
-      rate: 0.98,
-      onDone: () => opts?.onEnd?.(),
-      onStopped: () => opts?.onEnd?.(),
-    });
+    console.warn(`TTS via ${client.name} failed, falling back to expo-speech`, e);
+    return null;
   }
 }
 
+export interface SpeakOptions {
+  onStart?: () => void;
+  onEnd?: () => void;
+  // Now-playing metadata for the mini player and lock screen
+  title?: string;
+  artwork?: string;
+  sightId?: number | string;
+  // Append to the queue instead of replacing whatever is playing
+  enqueue?: boolean;
+  // Cached audio to prefer, see synthesizeSpeech
+  audioKey?: string;
+}
+
+// Play `text` and resolve with the cache key of its audio (null when read by the system TTS)
+export async function speakNatural(text: string, opts?: SpeakOptions): Promise<string | null> {
+  const { voiceStyle, language } = useSettingsStore.getState();
+  if (!text?.trim()) return null;
+
+  if (!opts?.enqueue) activeStream?.cancel();
+  const speech = await synthesizeSpeech(text, opts?.audioKey);
+  const track: PlayerTrack = {
+    id: `${opts?.sightId ?? "narration"}_${Date.now()}`,
+    title: opts?.title ?? "Audio Guide",
+    artwork: opts?.artwork,
+    sightId: opts?.sightId,
+    uri: speech?.uri,
+    text: stripCitationMarkers(text),
+    language,
+    pitch: voiceStyle === "female" ? 1.1 : voiceStyle === "male" ? 0.95 : 1.0,
+    onStart: opts?.onStart,
+    onEnd: opts?.onEnd,
+  };
+
+  if (opts?.enqueue) await enqueueTrack(track);
+  else await playTracks([track]);
+  return speech?.audioKey ?? null;
+}
+
 export async function stopNatural() {
-  if (currentSound) {
-    try { await currentSound.stopAsync(); await currentSound.unloadAsync(); } catch {}
-    currentSound = null;
-  } else {
-    const Speech = await import("expo-speech");
-    try { Speech.stop(); } catch {}
-  }
+  activeStream?.cancel();
+  await stopPlayback();
+}
+
+/* ----------------------------- Streamed speech ----------------------------- */
+
+export interface NarrationStream {
+  push: (delta: string) => void;   // more text as it arrives
+  finish: () => Promise<void>;     // no more text; resolves once every piece is queued
+  cancel: () => void;
+}
+
+let activeStream: NarrationStream | null = null;
+
+// Speak a narration while it is still being written: each piece of whole sentences is
+// synthesized as soon as it is complete and queued behind the previous one.
+export function startNarrationStream(opts?: Pick<SpeakOptions, "title" | "artwork" | "sightId">): NarrationStream {
+  activeStream?.cancel();
+
+  const { voiceStyle, language } = useSettingsStore.getState();
+  const streamId = `${opts?.sightId ?? "narration"}_${Date.now()}`;
+  let cancelled = false;
+  let pieces = 0;
+  // Synthesis runs in parallel, queueing in order
+  let queued: Promise<void> = Promise.resolve();
+
+  const speakPiece = (text: string) => {
+    const index = pieces++;
+    const speech = synthesizeSpeech(text);
+    queued = queued.then(async () => {
+      const synthesized = await speech;
+      if (cancelled) return;
+      const track: PlayerTrack = {
+        id: `${streamId}_${index}`,
+        title: opts?.title ?? "Audio Guide",
+        artwork: opts?.artwork,
+        sightId: opts?.sightId,
+        uri: synthesized?.uri,
+        text: stripCitationMarkers(text),
+        language,
+        pitch: voiceStyle === "female" ? 1.1 : voiceStyle === "male" ? 0.95 : 1.0,
+      };
+      if (index === 0) await playTracks([track]);
+      else await enqueueTrack(track);
+    });
+  };
+  const chunker = createSentenceChunker(speakPiece);
+
+  const stream: NarrationStream = {
+    push: (delta) => {
+      if (!cancelled) chunker.push(delta);
+    },
+    finish: async () => {
+      if (!cancelled) chunker.flush();
+      await queued;
+      if (activeStream === stream) activeStream = null;
+    },
+    cancel: () => {
+      cancelled = true;
+      if (activeStream === stream) activeStream = null;
+    },
+  };
+  activeStream = stream;
+  return stream;
+}
+
+// Splits text into pieces of whole sentences of at least FIRST_CHUNK_CHARS (then CHUNK_CHARS);
+// whatever is left when the text ends is the last piece
+export function createSentenceChunker(onChunk: (text: string) => void) {
+  let buffer = "";
+  let emitted = 0;
+
+  const emitReady = () => {
+    // A sentence ends at . ! ? … (optionally followed by quotes or brackets) plus whitespace
+    const boundary = /[.!?…]["'”’)\]]*\s+/g;
+    let match: RegExpExecArray | null;
+    let start = 0;
+    while ((match = boundary.exec(buffer))) {
+      const end = match.index + match[0].length;
+      if (end - start < (emitted === 0 ? FIRST_CHUNK_CHARS : CHUNK_CHARS)) continue;
+      onChunk(buffer.slice(start, end).trim());
+      emitted++;
+      start = end;
+    }
+    buffer = buffer.slice(start);
+  };
+
+  return {
+    push: (text: string) => {
+      buffer += text;
+      emitReady();
+    },
+    flush: () => {
+      const rest = buffer.trim();
+      buffer = "";
+      if (rest) onChunk(rest);
+    },
+  };
 }